@@ -1,16 +1,10 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   Mic, 
-  Image as ImageIcon, 
   Video, 
   Copy, 
   Play, 
   Pause, 
-  Youtube, 
-  Facebook, 
-  Linkedin, 
-  Twitter, 
-  FileVideo,
   Sparkles,
   Loader2,
   Zap,
@@ -25,74 +19,189 @@ import {
   ChevronRight,
   ShieldAlert,
   Copyright,
-  Check,
   Download,
   Settings,
-  Key
+  Key,
+  Wrench,
+  HardDrive,
+  GitCompare,
+  ChevronUp,
+  ChevronDown,
+  Plus,
+  SlidersHorizontal
 } from 'lucide-react';
-import { generateContent, generateSpeech } from './services/geminiService';
+import { createProvider, loadProviderSettings, saveProviderSettings, PROVIDER_LABELS } from './services/provider';
 import AudioVisualizer from './components/AudioVisualizer';
-import { GeneratedContent, Tone, HistoryItem } from './types';
-
-// Utility to convert file to Base64
-const fileToGenerativePart = async (file: File): Promise<{ data: string; mimeType: string }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64Data = reader.result as string;
-      const base64Content = base64Data.split(',')[1];
-      resolve({
-        data: base64Content,
-        mimeType: file.type,
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+import VoiceRecorder, { RecorderStatus } from './components/VoiceRecorder';
+import RecordingPreview from './components/RecordingPreview';
+import RegenerateFieldButton from './components/RegenerateFieldButton';
+import ErrorPanel from './components/ErrorPanel';
+import VoiceSettingsPanel from './components/VoiceSettingsPanel';
+import BrandProfilesPanel from './components/BrandProfilesPanel';
+import PhoneticTextarea from './components/PhoneticTextarea';
+import PhoneticToggle from './components/PhoneticToggle';
+import PhoneticDictionaryPanel from './components/PhoneticDictionaryPanel';
+import MediaAttachmentList from './components/MediaAttachmentList';
+import ProcessedSizeBadge from './components/ProcessedSizeBadge';
+import PreprocessSettingsPanel from './components/PreprocessSettingsPanel';
+import ExportMenu from './components/ExportMenu';
+import HistoryPanel from './components/HistoryPanel';
+import RevisionPanel from './components/RevisionPanel';
+import EditableText from './components/EditableText';
+import ConstraintBadge from './components/ConstraintBadge';
+import TagChips from './components/TagChips';
+import PendingBlock from './components/PendingBlock';
+import PlatformCard from './components/PlatformCard';
+import { GenerationError, classifyError } from './services/errors';
+import { isCancelled } from './services/retry';
+import { speechToBlob, encodeOpus } from './services/audioEncoding';
+import { SceneAudio, synthesizeScenes, stitchNarration } from './services/narration';
+import { loadVoiceSettings, saveVoiceSettings, resolveSpeechRequest } from './services/voice';
+import { ACCEPTED_MEDIA, createAttachment, formatFileSize, isSupportedMedia, savedAttachments } from './services/media';
+import { MediaSource, UploadProgress } from './services/mediaTransport';
+import { ProcessedMedia, loadPreprocessSettings, preprocessMedia, savePreprocessSettings } from './services/mediaPreprocess';
+import { loadPhoneticDictionary, savePhoneticDictionary } from './services/phonetic';
+import { OUTPUT_LANGUAGES, languageFor, loadPlatformLanguages, savePlatformLanguages, setPlatformLanguage } from './services/languages';
+import { loadBrandProfiles, loadSelectedBrandId, saveBrandProfiles, saveSelectedBrandId } from './services/brands';
+import { buildSubtitles, SubtitleFormat } from './services/subtitles';
+import * as historyStore from './services/historyStore';
+import { addRevision, applyManualEdit, createRevision, editedFields, getRevisions, promoteRevision } from './services/revisions';
+import { PLATFORM_RULES, buildFitInstruction, checkField } from './services/platformRules';
+import { insertHashtags, removeHashtags } from './services/hashtags';
+import { PLATFORMS, PLATFORM_TABS, PlatformTab, getPlatform, loadSelectedPlatforms, platformsInContent, saveSelectedPlatforms, sortPlatforms } from './services/platforms';
+import { EditableTextField, insertScene, moveScene, removeScene, updateScene, updateTextField } from './services/contentEditing';
+import { buildExportZip, buildHtmlPage, buildJsonExport, buildMarkdownBrief, exportFileName, ExportAudio, ExportFormat, ExportMetadata } from './services/exporters';
+import { ContentField, GeneratedContent, GenerationResult, Tone, HistoryItem, RegenerateTarget, ProviderSettings, ProviderId, MediaPart, TextFieldKey, PlatformId, VoiceSettings, BrandProfile, OutputLanguage, PlatformLanguages, MediaAttachment, MediaInput, PreprocessSettings } from './types';
+
+// Saves generated files (subtitles, exports) through a temporary object URL
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
+const downloadTextFile = (text: string, filename: string, mimeType: string) =>
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
+
+// Stable key for a regenerate target, used to show which control is busy
+const regenerateTargetKey = (target: RegenerateTarget): string =>
+  target.kind === 'fields' ? target.fields.join('+') : `scene-${target.sceneIndex}`;
+
+// Where the voice note's preprocessing result is kept, next to the attachments' ids
+const RECORDING_KEY = 'recording';
+
 function SrotoLipiAI() {
   // State
   const [inputText, setInputText] = useState('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [isRecording, setIsRecording] = useState(false);
+  // Attached files in the order they are sent; a recording can be added alongside them
+  const [attachments, setAttachments] = useState<MediaAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Names of the files the last pick or drop could not attach, shown under the dropzone
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
+  const [recorderStatus, setRecorderStatus] = useState<RecorderStatus>('idle');
+  const isRecording = recorderStatus !== 'idle';
   const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
   const [recordedAudio, setRecordedAudio] = useState<{ blob: Blob; url: string } | null>(null);
+  const [recordingCaption, setRecordingCaption] = useState('');
   
   // Generation Settings
   const [tone, setTone] = useState<Tone>(Tone.CREATIVE);
   const [duration, setDuration] = useState<string>('Short (< 2 min)');
+  // Platforms to generate; fewer platforms keep the request and the response small
+  const [platforms, setPlatforms] = useState<PlatformId[]>(loadSelectedPlatforms);
+  const [streamingPlatforms, setStreamingPlatforms] = useState<PlatformId[]>([]);
+  const [languages, setLanguages] = useState<PlatformLanguages>(loadPlatformLanguages);
+  // Saved brand voices; the selected one is added to the prompt
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>(loadBrandProfiles);
+  const [selectedBrandId, setSelectedBrandId] = useState<string | null>(loadSelectedBrandId);
+  const [showBrandProfiles, setShowBrandProfiles] = useState(false);
+  const [showPhoneticDictionary, setShowPhoneticDictionary] = useState(false);
+  // Attachments are shrunk in the browser; results are keyed by attachment id (or RECORDING_KEY)
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(loadPreprocessSettings);
+  const [processedMedia, setProcessedMedia] = useState<Record<string, ProcessedMedia>>({});
+  const [showPreprocessSettings, setShowPreprocessSettings] = useState(false);
+  const selectedBrand = brandProfiles.find(b => b.id === selectedBrandId) ?? null;
   
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<GeneratedContent | null>(null);
+  // Fields received so far while a generation is streaming in
+  const [streamingResult, setStreamingResult] = useState<Partial<GeneratedContent> | null>(null);
+  // History entry the current result belongs to, so per-field edits update it in place
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+  // Automatic retry progress of the running field regeneration, shown next to its button
+  const [regenerateRetryStatus, setRegenerateRetryStatus] = useState<{ attempt: number; max: number } | null>(null);
+  // What validation had to fix in the latest generation, shown as a notice above the deck
+  const [repairNotice, setRepairNotice] = useState<GenerationResult | null>(null);
+  // Last failure, shown inline with a next step instead of an alert()
+  const [errorState, setErrorState] = useState<{ error: GenerationError; retry?: () => void } | null>(null);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  // Automatic retry progress of the running generation, e.g. { attempt: 2, max: 3 }
+  const [retryStatus, setRetryStatus] = useState<{ attempt: number; max: number } | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const [audioDownloadUrl, setAudioDownloadUrl] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'social' | 'youtube' | 'script'>('social');
+  const [audioExtension, setAudioExtension] = useState('wav');
+  // Optional compressed copy of the speech, encoded in the browser on demand
+  const [opusDownload, setOpusDownload] = useState<{ url: string; extension: string } | null>(null);
+  const [isEncodingOpus, setIsEncodingOpus] = useState(false);
+  // Per-scene voiceovers for the Script tab, indexed like result.videoScript
+  const [sceneAudio, setSceneAudio] = useState<SceneAudio[]>([]);
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [playingSceneIndex, setPlayingSceneIndex] = useState<number | null>(null);
+  // Scene whose voiceover is being synthesized to play it
+  const [loadingSceneIndex, setLoadingSceneIndex] = useState<number | null>(null);
+  const [narrationDownloadUrl, setNarrationDownloadUrl] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<PlatformTab>('social');
   
   // Settings & API Key
   const [showSettings, setShowSettings] = useState(false);
   const [userApiKey, setUserApiKey] = useState('');
   const [tempApiKey, setTempApiKey] = useState('');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [tempProviderSettings, setTempProviderSettings] = useState<ProviderSettings>(providerSettings);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+
+  // Backend used for every generation call (Gemini, OpenAI-compatible or offline mock)
+  const provider = useMemo(() => createProvider(providerSettings, userApiKey), [providerSettings, userApiKey]);
 
   // History State
-  const [history, setHistory] = useState<HistoryItem[]>(() => {
-    const saved = localStorage.getItem('srotolipi_history');
-    return saved ? JSON.parse(saved) : [];
-  });
+  // History State (persisted in IndexedDB, loaded on mount)
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [storageUsage, setStorageUsage] = useState<historyStore.StorageUsage | null>(null);
   
   // Mobile drawer state
   const [showMobileHistory, setShowMobileHistory] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
 
   // Refs
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const inputTextRef = useRef<HTMLTextAreaElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // The latest handleGenerate, so a retry from the error panel sends the inputs as they are now
+  const handleGenerateRef = useRef<(asRevision?: boolean) => Promise<void>>();
+  const regenerateAbortRef = useRef<AbortController | null>(null);
+  const speechAbortRef = useRef<AbortController | null>(null);
+  // Decoded speech for the current result, so replaying does not synthesize again
+  const speechBufferRef = useRef<AudioBuffer | null>(null);
+  const narrationAbortRef = useRef<AbortController | null>(null);
+  const sceneAbortRef = useRef<AbortController | null>(null);
+  // Audio files of the current result, bundled into the ZIP export
+  const exportAudioRef = useRef<ExportAudio>({});
 
   // Effects
   useEffect(() => {
-    localStorage.setItem('srotolipi_history', JSON.stringify(history));
-  }, [history]);
+    historyStore.migrateLegacyHistory()
+      .then(historyStore.listHistory)
+      .then(setHistory)
+      .catch(e => console.error("Failed to load history", e))
+      .finally(refreshStorageUsage);
+  }, []);
 
   useEffect(() => {
     const savedKey = localStorage.getItem('srotolipi_api_key');
@@ -102,6 +211,17 @@ function SrotoLipiAI() {
     }
   }, []);
 
+  // Start every settings session from the saved provider configuration
+  useEffect(() => {
+    if (showSettings) setTempProviderSettings(providerSettings);
+  }, [showSettings]);
+
+  // Leaving stops any voiceover still being synthesized
+  useEffect(() => () => {
+    narrationAbortRef.current?.abort();
+    sceneAbortRef.current?.abort();
+  }, []);
+
   // Clean up audio URL on unmount or new result
   useEffect(() => {
     return () => {
@@ -109,10 +229,55 @@ function SrotoLipiAI() {
     };
   }, [audioDownloadUrl]);
 
+  useEffect(() => {
+    return () => {
+      if (opusDownload) URL.revokeObjectURL(opusDownload.url);
+    };
+  }, [opusDownload]);
+
+  useEffect(() => {
+    return () => {
+      if (narrationDownloadUrl) URL.revokeObjectURL(narrationDownloadUrl);
+    };
+  }, [narrationDownloadUrl]);
+
+  // Covers every way the recording goes: re-recorded, trimmed, removed or restored from history
+  useEffect(() => {
+    return () => {
+      if (recordedAudio) URL.revokeObjectURL(recordedAudio.url);
+    };
+  }, [recordedAudio]);
+
+  // Results made with other settings no longer apply
+  useEffect(() => {
+    setProcessedMedia({});
+  }, [preprocessSettings]);
+
+  // Preprocess media as soon as it is attached, so the new sizes show before generating.
+  // Results are cached per file, so generation reuses them.
+  useEffect(() => {
+    if (!preprocessSettings.enabled) return;
+    let cancelled = false;
+    const track = (key: string, blob: Blob) => preprocessMedia({ blob }, preprocessSettings).then(result => {
+      if (!cancelled) setProcessedMedia(prev => ({ ...prev, [key]: result }));
+    });
+    attachments.forEach(a => track(a.id, a.file));
+    if (recordedAudio) track(RECORDING_KEY, recordedAudio.blob);
+    return () => { cancelled = true; };
+  }, [attachments, recordedAudio, preprocessSettings]);
+
+  const preprocessTotals = [...attachments.map(a => ({ key: a.id, size: a.file.size })), ...(recordedAudio ? [{ key: RECORDING_KEY, size: recordedAudio.blob.size }] : [])]
+    .reduce((totals, { key, size }) => ({
+      original: totals.original + size,
+      processed: totals.processed + (processedMedia[key]?.processedBytes ?? size)
+    }), { original: 0, processed: 0 });
+
   // Handlers
   const handleSaveApiKey = () => {
     localStorage.setItem('srotolipi_api_key', tempApiKey.trim());
     setUserApiKey(tempApiKey.trim());
+    saveProviderSettings(tempProviderSettings);
+    setProviderSettings(tempProviderSettings);
     setShowSettings(false);
   };
 
@@ -123,183 +288,623 @@ function SrotoLipiAI() {
     setShowSettings(false);
   };
 
+  const addFiles = (files: File[]) => {
+    const supported = files.filter(isSupportedMedia);
+    const skipped = files.filter(file => !isSupportedMedia(file));
+    if (supported.length > 0) setAttachments(prev => [...prev, ...supported.map(file => createAttachment(file))]);
+    setSkippedFiles(skipped.map(file => file.name));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
-      setRecordedAudio(null); // Clear audio if file selected
-    }
+    if (e.target.files) addFiles(Array.from(e.target.files));
+    e.target.value = ''; // lets the same file be picked again after removing it
   };
 
-  const toggleRecording = async () => {
-    if (isRecording) {
-      mediaRecorderRef.current?.stop();
-      setIsRecording(false);
-      // Stop tracks to release mic
-      audioStream?.getTracks().forEach(track => track.stop());
-    } else {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        setAudioStream(stream);
-        
-        const mediaRecorder = new MediaRecorder(stream);
-        mediaRecorderRef.current = mediaRecorder;
-        audioChunksRef.current = [];
+  const handleDropFiles = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    if (!isLoading) addFiles(Array.from(e.dataTransfer.files));
+  };
 
-        mediaRecorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            audioChunksRef.current.push(event.data);
-          }
-        };
-
-        mediaRecorder.onstop = () => {
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' }); 
-          const audioUrl = URL.createObjectURL(audioBlob);
-          setRecordedAudio({ blob: audioBlob, url: audioUrl });
-          setSelectedFile(null); // Clear file if audio recorded
-        };
-
-        mediaRecorder.start();
-        setIsRecording(true);
-      } catch (err) {
-        console.error("Error accessing microphone:", err);
-        alert("Microphone access denied or not available.");
-      }
-    }
+  const showError = (error: unknown, retry?: () => void) => {
+    setErrorState({ error: classifyError(error), retry });
+  };
+
+  const handleRetryFromPanel = () => {
+    const retry = errorState?.retry;
+    setRetryAttempt(a => a + 1);
+    setErrorState(null);
+    retry?.();
   };
 
-  const handleGenerate = async () => {
-    if (!inputText && !selectedFile && !recordedAudio) {
+  // `asRevision` regenerates the open project as a new revision instead of starting a new project
+  const handleGenerate = async (asRevision = false) => {
+    const project = asRevision ? history.find(item => item.id === currentHistoryId) : undefined;
+    if (!inputText && attachments.length === 0 && !recordedAudio) {
       alert("Please provide some input (Text, Image, Video, or Audio).");
       return;
     }
 
     setIsLoading(true);
-    setAudioDownloadUrl(null); // Reset previous download
+    setErrorState(null);
+    setRetryStatus(null);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    resetSpeech(); // Reset previous download
+    const previousResult = result;
+    setRepairNotice(null);
 
     try {
-      let mediaData = null;
-      let audioData = null;
-
-      if (selectedFile) {
-        mediaData = await fileToGenerativePart(selectedFile);
-      }
+      // Shrink the media in the browser (usually already done while it sat in the list), then send
+      // small files inline and upload large ones (or reuse an earlier upload)
+      const files = await Promise.all(attachments.map(({ file, caption }) =>
+        preprocessMedia({ blob: file, name: file.name, caption }, preprocessSettings)));
+      const recording = recordedAudio ? await preprocessMedia({ blob: recordedAudio.blob, caption: recordingCaption }, preprocessSettings) : null;
+      const sources: MediaSource[] = [...files.flatMap(f => f.outputs), ...(recording?.outputs ?? [])];
+      const fileCount = sources.length - (recording?.outputs.length ?? 0);
+
+      const media = await provider.prepareMedia(sources, { signal: controller.signal, onProgress: setUploadProgress });
+      setUploadProgress(null);
+      const mediaFiles = media.slice(0, fileCount);
+      const audioData: MediaInput | null = recording ? media[fileCount] : null;
+
+      // Stream the output so each card fills in as soon as its field is complete
+      setResult(null);
+      setStreamingResult({});
+      setStreamingPlatforms(platforms);
+      const generation = await provider.generateContentStream(
+        { textInput: inputText, mediaFiles, audioInput: audioData, tone, duration, platforms, languages, brand: selectedBrand },
+        (partial) => setStreamingResult(partial),
+        {
+          signal: controller.signal,
+          onRetry: (attempt, max) => {
+            setRetryStatus({ attempt, max });
+            setStreamingResult({}); // the retried stream starts from scratch
+          }
+        }
+      );
+      const generatedData = generation.content;
+      setResult(generatedData);
+      if (generation.jsonRepaired || generation.repairs.length > 0) setRepairNotice(generation);
 
-      if (recordedAudio) {
-         // Convert blob to base64
-         const reader = new FileReader();
-         const base64Audio = await new Promise<string>((resolve) => {
-            reader.onloadend = () => resolve(reader.result as string);
-            reader.readAsDataURL(recordedAudio.blob);
-         });
-         audioData = {
-            data: base64Audio.split(',')[1],
-            mimeType: recordedAudio.blob.type || 'audio/webm' // Default fallback
-         };
+      const revision = createRevision(generatedData, { tone, duration, provider: provider.id, kind: project ? 'regenerate' : 'generate' });
+      if (project) {
+        updateHistoryItem(project.id, item => ({ ...addRevision(item, revision), inputText, duration, platforms, languages }));
+        persistHistory(historyStore.saveAttachments(project.id, { file: null, files: attachments, recording: recordedAudio?.blob ?? null, recordingCaption, speech: null }));
+        return;
       }
 
-      // Pass userApiKey (if exists) to the service
-      const generatedData = await generateContent(inputText, mediaData, audioData, tone, duration, userApiKey);
-      setResult(generatedData);
-
       // Add to History
       const historyPreview = inputText.slice(0, 60) + (inputText.length > 60 ? '...' : '') || 
-                             (selectedFile ? `File: ${selectedFile.name}` : 'Audio Recording');
+                             (attachments.length > 1 ? `${attachments.length} files` : attachments.length === 1 ? `File: ${attachments[0].file.name}` : 'Audio Recording');
       
       const newHistoryItem: HistoryItem = {
         id: Date.now().toString(),
         timestamp: Date.now(),
         preview: historyPreview,
         tone: tone,
-        data: generatedData
+        data: generatedData,
+        inputText,
+        duration,
+        platforms,
+        languages,
+        brandId: selectedBrand?.id,
+        brandName: selectedBrand?.name,
+        revisions: [revision],
+        currentRevisionId: revision.id
       };
 
       setHistory(prev => [newHistoryItem, ...prev]);
+      setCurrentHistoryId(newHistoryItem.id);
+      persistHistory(
+        historyStore.saveHistoryItem(newHistoryItem)
+          .then(() => historyStore.saveAttachments(newHistoryItem.id, { file: null, files: attachments, recording: recordedAudio?.blob ?? null, recordingCaption }))
+      );
 
     } catch (error: any) {
-      console.error("Generation failed:", error);
-      alert(`Failed to generate content. ${error.message}`);
+      setResult(previousResult);
+      if (!isCancelled(error)) {
+        console.error("Generation failed:", error);
+        showError(error, () => handleGenerateRef.current?.(asRevision));
+      }
     } finally {
       setIsLoading(false);
+      setStreamingResult(null);
+      setRetryStatus(null);
+      setUploadProgress(null);
+      generationAbortRef.current = null;
     }
   };
 
-  const restoreHistoryItem = (item: HistoryItem) => {
+  handleGenerateRef.current = handleGenerate;
+
+  const handleCancelGenerate = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleRegenerateField = async (target: RegenerateTarget, instruction: string) => {
+    if (!result) return;
+    setRegeneratingKey(regenerateTargetKey(target));
+    setErrorState(null);
+    setRegenerateRetryStatus(null);
+    const controller = new AbortController();
+    regenerateAbortRef.current = controller;
+
+    try {
+      const updated = await provider.regenerateField(result, target, tone, instruction, {
+        signal: controller.signal,
+        onRetry: (attempt, max) => setRegenerateRetryStatus({ attempt, max })
+      });
+      setResult(updated);
+      if (target.kind === 'scene') resetSceneAudio(target.sceneIndex);
+      const project = history.find(item => item.id === currentHistoryId);
+      if (project) {
+        updateHistoryItem(project.id, item => addRevision(item, createRevision(updated, {
+          tone, duration, provider: provider.id, kind: 'field', target, instruction: instruction || undefined
+        })));
+      }
+    } catch (error: any) {
+      if (!isCancelled(error)) {
+        console.error("Field regeneration failed:", error);
+        showError(error, () => handleRegenerateField(target, instruction));
+      }
+    } finally {
+      setRegeneratingKey(null);
+      setRegenerateRetryStatus(null);
+      regenerateAbortRef.current = null;
+    }
+  };
+
+  const handleCancelRegenerate = () => {
+    regenerateAbortRef.current?.abort();
+  };
+
+  // Per-field regenerate control, wired to the shared handler
+  const regenerateButton = (target: RegenerateTarget, className?: string) => {
+    const key = regenerateTargetKey(target);
+    return (
+      <RegenerateFieldButton
+        onRegenerate={(instruction) => handleRegenerateField(target, instruction)}
+        isBusy={regeneratingKey === key}
+        retryStatus={regeneratingKey === key ? regenerateRetryStatus : null}
+        onCancel={handleCancelRegenerate}
+        disabled={!result || isLoading || (regeneratingKey !== null && regeneratingKey !== key)}
+        className={className}
+      />
+    );
+  };
+
+  // Live length check for a platform field, with an auto-fit that shortens only that field
+  const constraintBadge = (field: TextFieldKey) => {
+    const check = deck ? checkField(field, deck[field] ?? '') : null;
+    if (!check || deck?.[field] === undefined) return null;
+    const target: RegenerateTarget = { kind: 'fields', fields: [field] };
+    const key = regenerateTargetKey(target);
+    return (
+      <ConstraintBadge
+        check={check}
+        isFitting={regeneratingKey === key}
+        onAutoFit={result && !isLoading && regeneratingKey === null ? () => handleRegenerateField(target, buildFitInstruction(check)) : undefined}
+      />
+    );
+  };
+
+  const draftCounter = (field: TextFieldKey) => PLATFORM_RULES[field]
+    ? (draft: string) => <ConstraintBadge check={checkField(field, draft)!} />
+    : undefined;
+
+  const refreshStorageUsage = () => {
+    historyStore.getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  };
+
+  // State is updated right away; the IndexedDB write runs in the background
+  const persistHistory = (write: Promise<void>) => {
+    write.then(refreshStorageUsage).catch(e => console.error("Failed to save history", e));
+  };
+
+  // Merged into the latest state, so changes made close together (pin then tag, an edit during a
+  // regeneration) all apply; a function patch is given the item as it is at that point
+  const updateHistoryItem = (id: string, patch: Partial<HistoryItem> | ((item: HistoryItem) => Partial<HistoryItem>)) => {
+    setHistory(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      const updated = { ...item, ...(typeof patch === 'function' ? patch(item) : patch) };
+      persistHistory(historyStore.saveHistoryItem(updated));
+      return updated;
+    }));
+  };
+
+  // Brings back the result together with the inputs, settings and audio it was made with
+  const restoreHistoryItem = async (item: HistoryItem) => {
     setResult(item.data);
+    setRepairNotice(null);
+    setCurrentHistoryId(item.id);
     setTone(item.tone);
-    setAudioDownloadUrl(null);
+    if (item.inputText !== undefined) setInputText(item.inputText);
+    if (item.duration) setDuration(item.duration);
+    setPlatforms(item.platforms ?? platformsInContent(item.data));
+    setLanguages(item.languages ?? {});
+    if (brandProfiles.some(b => b.id === item.brandId)) setSelectedBrandId(item.brandId!);
+    else if (!item.brandId) setSelectedBrandId(null);
+    resetSpeech();
     if(window.innerWidth < 1024) setShowMobileHistory(false);
+
+    try {
+      const saved = await historyStore.loadAttachments(item.id);
+      setAttachments(savedAttachments(saved));
+      setRecordedAudio(saved?.recording ? { blob: saved.recording, url: URL.createObjectURL(saved.recording) } : null);
+      setRecordingCaption(saved?.recordingCaption ?? '');
+      if (saved?.speech) {
+        exportAudioRef.current.summary = saved.speech;
+        setAudioDownloadUrl(URL.createObjectURL(saved.speech.blob));
+        setAudioExtension(saved.speech.extension);
+      }
+    } catch (e) {
+      console.error("Failed to load history attachments", e);
+    }
+  };
+
+  // Manual edits replace the result, so copy, export and TTS pick them up, and are saved to the project
+  const handleEditContent = (updated: GeneratedContent, field: ContentField) => {
+    setResult(updated);
+    const project = history.find(item => item.id === currentHistoryId);
+    if (project) updateHistoryItem(project.id, item => applyManualEdit(item, updated, field));
+
+    // Cached audio no longer matches the text
+    if (field === 'summary') {
+      resetSummarySpeech();
+      if (project) persistHistory(historyStore.saveAttachments(project.id, { speech: null }));
+    }
+    if (field === 'videoScript') resetSceneAudio();
+  };
+
+  const editText = (field: EditableTextField) => (value: string) => {
+    if (result) handleEditContent(updateTextField(result, field, value), field);
+  };
+
+  // Hashtag chips for one post; inserting or removing them edits the post body
+  const hashtagChips = (platform: PlatformId, field: TextFieldKey) => {
+    const tags = deck?.hashtags?.[platform];
+    if (!tags?.length) return null;
+    return (
+      <TagChips
+        key={tags.join(' ')}
+        label="Hashtags"
+        hashtags
+        tags={tags}
+        body={deck?.[field]}
+        onCopy={copyToClipboard}
+        onInsert={canEdit ? (selected) => editText(field)(insertHashtags(result![field], selected)) : undefined}
+        onRemove={canEdit ? (selected) => editText(field)(removeHashtags(result![field], selected)) : undefined}
+      />
+    );
+  };
+
+  const editScript = (update: (content: GeneratedContent) => GeneratedContent) => {
+    if (result) handleEditContent(update(result), 'videoScript');
+  };
+
+  const handlePromoteRevision = (revisionId: string) => {
+    const project = history.find(item => item.id === currentHistoryId);
+    if (!project) return;
+    const promoted = promoteRevision(project, revisionId);
+    updateHistoryItem(project.id, promoted);
+    setResult(promoted.data);
+    setTone(promoted.tone);
+    setRepairNotice(null);
+    resetSpeech();
+    if (currentHistoryId) persistHistory(historyStore.saveAttachments(currentHistoryId, { speech: null }));
   };
 
   const deleteHistoryItem = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setHistory(prev => prev.filter(item => item.id !== id));
+    if (id === currentHistoryId) setCurrentHistoryId(null);
+    persistHistory(historyStore.deleteHistoryItem(id));
   };
 
   const clearHistory = () => {
     if(confirm("Are you sure you want to clear all history?")) {
       setHistory([]);
+      setCurrentHistoryId(null);
+      persistHistory(historyStore.clearHistory());
+    }
+  };
+
+  const resetSpeech = () => {
+    resetSummarySpeech();
+    resetSceneAudio();
+  };
+
+  const resetSummarySpeech = () => {
+    setAudioDownloadUrl(null);
+    exportAudioRef.current.summary = undefined;
+    setOpusDownload(null);
+    speechBufferRef.current = null;
+  };
+
+  // Drops cached voiceovers (all, or one scene after it was regenerated) and the stitched track
+  const resetSceneAudio = (sceneIndex?: number) => {
+    if (sceneIndex === undefined) {
+      narrationAbortRef.current?.abort();
+      sceneAbortRef.current?.abort();
+      setSceneAudio([]);
+    } else {
+      setSceneAudio(prev => prev.map((audio, idx) => idx === sceneIndex ? { status: 'pending' } : audio));
+    }
+    setNarrationDownloadUrl(null);
+    exportAudioRef.current.narration = undefined;
+  };
+
+  const getAudioContext = async () => {
+    if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+
+    // Resume context if suspended (browser policy)
+    if (audioContextRef.current.state === 'suspended') {
+      await audioContextRef.current.resume();
+    }
+    return audioContextRef.current;
+  };
+
+  const decodeSpeech = async (speech: MediaPart) => {
+    const { blob } = speechToBlob(speech);
+    return (await getAudioContext()).decodeAudioData(await blob.arrayBuffer());
+  };
+
+  // Only one clip plays at a time; stopping a source fires its onended handler
+  const stopPlayback = () => {
+    if (audioSourceRef.current) {
+      audioSourceRef.current.stop();
+      audioSourceRef.current = null;
+    }
+  };
+
+  const playSpeechBuffer = (audioBuffer: AudioBuffer, onEnded: () => void = () => setIsPlayingAudio(false)) => {
+    stopPlayback();
+    const ctx = audioContextRef.current!;
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(ctx.destination);
+
+    source.onended = () => {
+      if (audioSourceRef.current === source) audioSourceRef.current = null;
+      onEnded();
+    };
+    source.start(0);
+    audioSourceRef.current = source;
+  };
+
+  // Synthesizes the given scenes into sceneAudio and returns every scene's buffer so far
+  const synthesizeSceneAudio = async (indices: number[], signal: AbortSignal) => {
+    const scenes = result?.videoScript ?? [];
+    const buffers = scenes.map((_, idx) => sceneAudio[idx]?.buffer ?? null);
+    const synthesized = await synthesizeScenes(
+      indices.map(idx => scenes[idx]),
+      (text, sceneSignal) => provider.generateSpeech(resolveSpeechRequest(text, tone, voiceSettings), { signal: sceneSignal }),
+      decodeSpeech,
+      {
+        signal,
+        onSceneUpdate: (i, audio) => setSceneAudio(prev => {
+          const next = scenes.map((_, idx) => prev[idx] ?? { status: 'pending' as const });
+          next[indices[i]] = audio;
+          return next;
+        })
+      }
+    );
+    synthesized.forEach((buffer, i) => { buffers[indices[i]] = buffer; });
+    return buffers;
+  };
+
+  // Voices every scene that has no audio yet, then stitches the full narration track
+  const handleNarrateScript = async () => {
+    const scenes = result?.videoScript;
+    if (!scenes?.length) return;
+
+    if (isNarrating) {
+      narrationAbortRef.current?.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    narrationAbortRef.current = controller;
+    setIsNarrating(true);
+    setNarrationDownloadUrl(null);
+
+    try {
+      const missing = scenes.map((_, idx) => idx).filter(idx => !sceneAudio[idx]?.buffer);
+      const buffers = await synthesizeSceneAudio(missing, controller.signal);
+      if (buffers.every(buffer => buffer !== null)) {
+        const wav = stitchNarration(scenes, buffers as AudioBuffer[]);
+        const narration = new Blob([wav as BlobPart], { type: 'audio/wav' });
+        exportAudioRef.current.narration = narration;
+        setNarrationDownloadUrl(URL.createObjectURL(narration));
+      }
+    } catch (e) {
+      if (!isCancelled(e)) {
+        console.error("Narration failed", e);
+        showError(e, handleNarrateScript);
+      }
+    } finally {
+      setIsNarrating(false);
+      narrationAbortRef.current = null;
+    }
+  };
+
+  // Clicking the scene again stops it, whether it is still being synthesized or playing
+  const handlePlayScene = async (idx: number) => {
+    if (playingSceneIndex === idx || loadingSceneIndex === idx) {
+      sceneAbortRef.current?.abort();
+      stopPlayback();
+      return;
+    }
+
+    // Only one scene is voiced on demand at a time
+    sceneAbortRef.current?.abort();
+    const controller = new AbortController();
+    sceneAbortRef.current = controller;
+
+    try {
+      await getAudioContext();
+      let buffer = sceneAudio[idx]?.buffer ?? null;
+      if (!buffer) {
+        setLoadingSceneIndex(idx);
+        buffer = (await synthesizeSceneAudio([idx], controller.signal))[idx];
+      }
+      if (!buffer) return; // the failure is shown on the scene
+      setPlayingSceneIndex(idx);
+      playSpeechBuffer(buffer, () => setPlayingSceneIndex(current => current === idx ? null : current));
+    } catch (e) {
+      if (isCancelled(e)) {
+        setSceneAudio(prev => prev.map((audio, i) => i === idx && audio?.status === 'synthesizing' ? { status: 'pending' } : audio));
+      } else {
+        console.error("Scene playback failed", e);
+        showError(e);
+      }
+    } finally {
+      setLoadingSceneIndex(current => current === idx ? null : current);
+      if (sceneAbortRef.current === controller) sceneAbortRef.current = null;
+    }
+  };
+
+  const handleEncodeOpus = async () => {
+    if (!speechBufferRef.current || isEncodingOpus) return;
+    setIsEncodingOpus(true);
+    try {
+      const encoded = await encodeOpus(speechBufferRef.current);
+      if (!encoded) {
+        alert("This browser cannot encode Opus audio. Please use the WAV download.");
+        return;
+      }
+      setOpusDownload({ url: URL.createObjectURL(encoded.blob), extension: encoded.extension });
+    } catch (e) {
+      console.error("Opus encoding failed", e);
+      showError(e);
+    } finally {
+      setIsEncodingOpus(false);
     }
   };
 
   const handleTTS = async () => {
     if (!result?.summary) return;
     
-    // Stop playback if currently playing
+    // Stop playback (or cancel the pending synthesis) if currently playing
     if (isPlayingAudio) {
-        if (audioSourceRef.current) {
-            audioSourceRef.current.stop();
-            audioSourceRef.current = null;
-        }
+        speechAbortRef.current?.abort();
+        stopPlayback();
         setIsPlayingAudio(false);
         return;
     }
 
     try {
       setIsPlayingAudio(true);
-      // Pass userApiKey to service
-      const base64Audio = await generateSpeech(result.summary, userApiKey);
-      
-      // Decode Base64 to ArrayBuffer
-      const binaryString = atob(base64Audio);
-      const len = binaryString.length;
-      const bytes = new Uint8Array(len);
-      for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      // Create Blob for Download if not already created
-      if (!audioDownloadUrl) {
-          const blob = new Blob([bytes], { type: 'audio/mp3' });
-          const url = URL.createObjectURL(blob);
-          setAudioDownloadUrl(url);
-      }
+      const ctx = await getAudioContext();
 
-      // Setup Audio Context for Playback
-      if (!audioContextRef.current) {
-          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      if (speechBufferRef.current) {
+        playSpeechBuffer(speechBufferRef.current);
+        return;
       }
 
-      // Resume context if suspended (browser policy)
-      if (audioContextRef.current.state === 'suspended') {
-        await audioContextRef.current.resume();
+      // Audio restored from history is decoded instead of synthesized again
+      let speechFile = exportAudioRef.current.summary;
+      if (!speechFile) {
+        const controller = new AbortController();
+        speechAbortRef.current = controller;
+        const speech = await provider.generateSpeech(resolveSpeechRequest(result.summary, tone, voiceSettings), { signal: controller.signal });
+
+        // Raw PCM from the TTS model is wrapped in a WAV container for both playback and download
+        speechFile = speechToBlob(speech);
+        setAudioDownloadUrl(URL.createObjectURL(speechFile.blob));
+        exportAudioRef.current.summary = speechFile;
+        setAudioExtension(speechFile.extension);
+        if (currentHistoryId) persistHistory(historyStore.saveAttachments(currentHistoryId, { speech: speechFile }));
       }
-      
-      // Decode audio data for playback
-      // We copy the buffer because decodeAudioData detaches the buffer
-      const audioBuffer = await audioContextRef.current.decodeAudioData(bytes.buffer.slice(0));
-      
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContextRef.current.destination);
-      
-      source.onended = () => setIsPlayingAudio(false);
-      source.start(0);
-      audioSourceRef.current = source;
+
+      const audioBuffer = await ctx.decodeAudioData(await speechFile.blob.arrayBuffer());
+      speechBufferRef.current = audioBuffer;
+      playSpeechBuffer(audioBuffer);
 
     } catch (e) {
-      console.error("TTS Playback failed", e);
       setIsPlayingAudio(false);
-      alert("Failed to play audio. Please try again.");
+      if (isCancelled(e)) return;
+      console.error("TTS Playback failed", e);
+      showError(e, handleTTS);
+    } finally {
+      speechAbortRef.current = null;
+    }
+  };
+
+  // At least one platform always stays selected
+  const handleTogglePlatform = (id: PlatformId) => {
+    const next = platforms.includes(id) ? platforms.filter(p => p !== id) : sortPlatforms([...platforms, id]);
+    if (next.length === 0) return;
+    setPlatforms(next);
+    saveSelectedPlatforms(next);
+  };
+
+  const handleSetLanguage = (ids: PlatformId[], language: OutputLanguage) => {
+    const next = ids.reduce((acc, id) => setPlatformLanguage(acc, id, language), languages);
+    setLanguages(next);
+    savePlatformLanguages(next);
+  };
+
+  const handleSavePreprocessSettings = (settings: PreprocessSettings) => {
+    setPreprocessSettings(settings);
+    savePreprocessSettings(settings);
+    setShowPreprocessSettings(false);
+  };
+
+  // New voices invalidate every cached clip
+  const handleSaveVoiceSettings = (settings: VoiceSettings) => {
+    setVoiceSettings(settings);
+    saveVoiceSettings(settings);
+    resetSpeech();
+    setShowVoiceSettings(false);
+  };
+
+  // Picking a brand also switches to its default tone, which can still be changed afterwards
+  const handleSelectBrand = (id: string | null) => {
+    setSelectedBrandId(id);
+    saveSelectedBrandId(id);
+    const brand = brandProfiles.find(b => b.id === id);
+    if (brand) setTone(brand.defaultTone);
+  };
+
+  const handleSaveBrandProfiles = (profiles: BrandProfile[]) => {
+    setBrandProfiles(profiles);
+    saveBrandProfiles(profiles);
+    if (selectedBrandId && !profiles.some(b => b.id === selectedBrandId)) handleSelectBrand(null);
+    setShowBrandProfiles(false);
+  };
+
+  const handleDownloadSubtitles = (format: SubtitleFormat) => {
+    if (!result?.videoScript.length) return;
+    downloadTextFile(
+      buildSubtitles(result.videoScript, format),
+      `srotolipi_script_${Date.now()}.${format}`,
+      format === 'srt' ? 'application/x-subrip' : 'text/vtt'
+    );
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!result) return;
+    const historyItem = history.find(item => item.id === currentHistoryId);
+    const meta: ExportMetadata = historyItem ?? { tone, timestamp: Date.now(), preview: inputText.slice(0, 60) || 'Untitled' };
+
+    try {
+      switch (format) {
+        case 'json':
+          return downloadTextFile(buildJsonExport(result, meta), exportFileName(meta, 'json'), 'application/json');
+        case 'markdown':
+          return downloadTextFile(buildMarkdownBrief(result, meta), exportFileName(meta, 'md'), 'text/markdown');
+        case 'html':
+          return downloadTextFile(buildHtmlPage(result, meta), exportFileName(meta, 'html'), 'text/html');
+        case 'zip':
+          return downloadBlob(await buildExportZip(result, meta, exportAudioRef.current), exportFileName(meta, 'zip'));
+      }
+    } catch (e) {
+      console.error("Export failed", e);
+      showError(e);
     }
   };
 
@@ -309,11 +914,27 @@ function SrotoLipiAI() {
 
   // --- UI COMPONENTS ---
 
+  const currentProject = history.find(item => item.id === currentHistoryId);
+  const edited = editedFields(currentProject);
+  const canEdit = !!result && !isLoading;
+
+  // Shared by the desktop sidebar and the mobile drawer
+  const historyPanel = (
+    <HistoryPanel
+      items={history}
+      currentId={currentHistoryId}
+      onRestore={restoreHistoryItem}
+      onDelete={deleteHistoryItem}
+      onTogglePin={(id) => updateHistoryItem(id, item => ({ pinned: !item.pinned }))}
+      onUpdateTags={(id, tags) => updateHistoryItem(id, { tags })}
+    />
+  );
+
   const TabButton = ({ id, label, icon: Icon }: any) => (
     <button
       onClick={() => setActiveTab(id)}
       className={`flex items-center gap-2 px-4 py-3 font-medium text-sm transition-all rounded-t-lg relative ${
-        activeTab === id 
+        visibleTab === id 
           ? 'text-blue-600 bg-white border-t-2 border-blue-600 shadow-sm' 
           : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'
       }`}
@@ -323,13 +944,17 @@ function SrotoLipiAI() {
     </button>
   );
 
-  // Determine Icon for Uploaded File
-  const getFileIcon = (file: File) => {
-    if (file.type.startsWith('image/')) return <ImageIcon size={24} className="text-purple-500" />;
-    if (file.type.startsWith('video/')) return <Video size={24} className="text-pink-500" />;
-    if (file.type.startsWith('audio/')) return <Music size={24} className="text-amber-500" />;
-    return <UploadCloud size={24} className="text-blue-500" />;
-  };
+  // What the output deck renders: the final result, or the partial one while streaming
+  const deck: Partial<GeneratedContent> | null = result ?? streamingResult;
+  // Platforms the deck has cards for; while streaming, the ones that were requested
+  const deckPlatforms = result ? platformsInContent(result) : streamingResult ? streamingPlatforms : platforms;
+  const visibleTabs = PLATFORM_TABS.filter(tab => deckPlatforms.some(id => getPlatform(id).tab === tab.id));
+  const visibleTab = visibleTabs.some(tab => tab.id === activeTab) ? activeTab : visibleTabs[0]?.id;
+
+  // The scene buttons go away with the Script tab, and so does a voiceover they were loading
+  useEffect(() => {
+    if (visibleTab !== 'script') sceneAbortRef.current?.abort();
+  }, [visibleTab]);
 
   return (
     <div className="flex h-screen bg-slate-100 text-slate-900 font-sans overflow-hidden">
@@ -360,43 +985,33 @@ function SrotoLipiAI() {
             )}
           </div>
           
-          <div className="space-y-3">
-            {history.length === 0 ? (
-              <div className="text-center py-10 text-slate-400">
-                <Clock size={32} className="mx-auto mb-2 opacity-30" />
-                <p className="text-sm">No recent history</p>
-              </div>
-            ) : (
-              history.map((item) => (
-                <div 
-                  key={item.id}
-                  onClick={() => restoreHistoryItem(item)}
-                  className="bg-slate-50 hover:bg-white border border-transparent hover:border-blue-200 p-3 rounded-lg cursor-pointer transition-all group shadow-sm hover:shadow-md"
-                >
-                  <div className="flex justify-between items-start mb-1">
-                    <span className="text-[10px] font-bold text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded uppercase">{item.tone}</span>
-                    <button onClick={(e) => deleteHistoryItem(item.id, e)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <Trash2 size={12} />
-                    </button>
-                  </div>
-                  <h3 className="text-xs font-medium text-slate-700 line-clamp-2 mb-2">{item.preview}</h3>
-                  <div className="text-[10px] text-slate-400 flex items-center gap-1">
-                    <Clock size={10} /> {new Date(item.timestamp).toLocaleDateString()}
-                  </div>
-                </div>
-              ))
-            )}
-          </div>
+          {historyPanel}
         </div>
 
         {/* Sidebar Footer */}
         <div className="p-4 border-t border-slate-100 bg-slate-50 flex flex-col gap-2">
+           {storageUsage && storageUsage.quota > 0 && (
+             <div className="px-1" title="Browser storage used by saved projects, inputs and audio">
+               <div className="flex items-center justify-between text-[10px] text-slate-500 mb-1">
+                 <span className="flex items-center gap-1 font-semibold"><HardDrive size={10} /> Storage</span>
+                 <span>{formatFileSize(storageUsage.usage)} / {formatFileSize(storageUsage.quota)}</span>
+               </div>
+               <div className="h-1 bg-slate-200 rounded-full overflow-hidden">
+                 <div
+                   className={`h-full rounded-full ${storageUsage.usage / storageUsage.quota > 0.8 ? 'bg-red-500' : 'bg-blue-500'}`}
+                   style={{ width: `${Math.max(1, Math.min(100, (storageUsage.usage / storageUsage.quota) * 100))}%` }}
+                 />
+               </div>
+             </div>
+           )}
            <button 
              onClick={() => setShowSettings(true)}
              className="flex items-center justify-between w-full px-3 py-2 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
            >
              <span className="flex items-center gap-2"><Settings size={14} /> Settings & API Key</span>
-             {userApiKey && <span className="h-2 w-2 rounded-full bg-green-500" title="Custom Key Active"></span>}
+             {providerSettings.provider !== 'gemini' ? (
+               <span className="text-[10px] font-bold text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded">{provider.label}</span>
+             ) : userApiKey && <span className="h-2 w-2 rounded-full bg-green-500" title="Custom Key Active"></span>}
            </button>
            <div className="flex items-center gap-2 text-xs text-slate-400 px-1">
               <div className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></div>
@@ -439,12 +1054,17 @@ function SrotoLipiAI() {
 
                     {/* Text Input */}
                     <div className="relative">
-                        <textarea
+                        <PhoneticTextarea
+                            inputRef={inputTextRef}
                             value={inputText}
-                            onChange={(e) => setInputText(e.target.value)}
+                            onChange={setInputText}
                             placeholder="Describe your content idea here..."
-                            className="w-full bg-slate-50 border border-slate-200 rounded-xl p-4 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none resize-none h-40 text-sm text-slate-800 placeholder:text-slate-400 transition-all"
+                            className="w-full bg-slate-50 border border-slate-200 rounded-xl p-4 pb-9 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none resize-none h-40 text-sm text-slate-800 placeholder:text-slate-400 transition-all"
                         />
+                        <div className="absolute bottom-3 left-3 flex items-center gap-2">
+                            <PhoneticToggle />
+                            <button onClick={() => setShowPhoneticDictionary(true)} className="text-[10px] font-semibold text-slate-400 hover:text-blue-600">Dictionary</button>
+                        </div>
                         <div className="absolute bottom-3 right-3 text-xs text-slate-400 font-medium">
                             {inputText.length} chars
                         </div>
@@ -453,74 +1073,143 @@ function SrotoLipiAI() {
                     {/* Media Dropzone Row */}
                     <div className="grid grid-cols-2 gap-4">
                         {/* File Upload */}
-                        <div className="relative group">
+                        <div
+                            className="relative group"
+                            onDragOver={(e) => { e.preventDefault(); setIsDraggingFiles(true); }}
+                            onDragLeave={() => setIsDraggingFiles(false)}
+                            onDrop={handleDropFiles}
+                        >
                             <input 
                                 type="file" 
                                 id="file-upload" 
                                 className="hidden" 
-                                accept="image/*,video/*,audio/*"
+                                accept={ACCEPTED_MEDIA}
+                                multiple
                                 onChange={handleFileChange}
                             />
                             <label 
                                 htmlFor="file-upload"
                                 className={`flex flex-col items-center justify-center h-24 rounded-xl border-2 border-dashed cursor-pointer transition-all ${
-                                    selectedFile 
+                                    isDraggingFiles
+                                    ? 'border-blue-500 bg-blue-50'
+                                    : attachments.length > 0
                                     ? 'border-blue-500 bg-blue-50/50' 
                                     : 'border-slate-200 hover:border-blue-400 hover:bg-slate-50'
                                 }`}
                             >
-                                {selectedFile ? (
-                                    <div className="flex flex-col items-center text-center px-2">
-                                        {getFileIcon(selectedFile)}
-                                        <span className="text-xs font-semibold text-slate-700 mt-2 truncate max-w-full">{selectedFile.name}</span>
-                                    </div>
-                                ) : (
-                                    <div className="flex flex-col items-center text-slate-400 group-hover:text-blue-500 transition-colors">
-                                        <UploadCloud size={24} className="mb-2" />
-                                        <span className="text-xs font-semibold">Upload Media</span>
-                                        <span className="text-[10px] opacity-70">Audio • Video • Image</span>
-                                    </div>
-                                )}
+                                <div className="flex flex-col items-center text-slate-400 group-hover:text-blue-500 transition-colors">
+                                    <UploadCloud size={24} className="mb-2" />
+                                    <span className="text-xs font-semibold">
+                                        {isDraggingFiles ? 'Drop to attach' : attachments.length > 0 ? `${attachments.length} attached · Add more` : 'Upload Media'}
+                                    </span>
+                                    <span className="text-[10px] opacity-70">Drag & drop · Audio • Video • Image</span>
+                                </div>
                             </label>
-                            {selectedFile && (
-                                <button 
-                                    onClick={(e) => { e.preventDefault(); setSelectedFile(null); }}
-                                    className="absolute -top-2 -right-2 bg-white text-red-500 rounded-full p-1 shadow border border-slate-200 hover:bg-red-50"
-                                >
-                                    <X size={12} />
-                                </button>
-                            )}
                         </div>
 
                         {/* Mic Recording */}
-                        <button
-                            onClick={toggleRecording}
-                            className={`flex flex-col items-center justify-center h-24 rounded-xl border-2 transition-all ${
-                                isRecording 
-                                ? 'border-red-500 bg-red-50 animate-pulse' 
-                                : recordedAudio 
-                                    ? 'border-green-500 bg-green-50'
-                                    : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
-                            }`}
-                        >
-                            <div className={`p-2 rounded-full mb-1 ${isRecording ? 'bg-red-100 text-red-600' : 'bg-slate-100 text-slate-500'}`}>
+                        <VoiceRecorder
+                            hasRecording={!!recordedAudio}
+                            onRecorded={setRecordedAudio}
+                            onStatusChange={(status, stream) => { setRecorderStatus(status); setAudioStream(stream); }}
+                            disabled={isLoading}
+                        />
+                    </div>
+
+                    {/* Preprocessing summary */}
+                    {(attachments.length > 0 || recordedAudio) && (
+                        <div className="flex items-center justify-between text-[11px] text-slate-500">
+                            <span>
+                                {preprocessSettings.enabled
+                                    ? `Optimized in the browser: ${formatFileSize(preprocessTotals.original)} → ${formatFileSize(preprocessTotals.processed)}`
+                                    : 'Preprocessing off: files are sent as they are'}
+                            </span>
+                            <button onClick={() => setShowPreprocessSettings(true)} className="flex items-center gap-1 font-semibold text-blue-600 hover:text-blue-700">
+                                <SlidersHorizontal size={12} /> Preprocessing
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Skipped Files Notice */}
+                    {skippedFiles.length > 0 && (
+                        <div className="bg-amber-50 border border-amber-100 rounded-xl p-3 flex items-start justify-between gap-3 text-xs text-amber-800">
+                            <span>
+                                <strong>Only images, videos and audio can be attached.</strong> Skipped: {skippedFiles.join(', ')}
+                            </span>
+                            <button onClick={() => setSkippedFiles([])} className="text-amber-500 hover:text-amber-700"><X size={14} /></button>
+                        </div>
+                    )}
+
+                    {/* Attached Media */}
+                    {attachments.length > 0 && (
+                        <MediaAttachmentList
+                            attachments={attachments}
+                            onChange={setAttachments}
+                            processed={preprocessSettings.enabled ? processedMedia : undefined}
+                            disabled={isLoading}
+                        />
+                    )}
+
+                    {/* Voice Note */}
+                    {recordedAudio && !isRecording && (
+                        <div className="flex items-start gap-2 bg-white border border-green-200 rounded-xl p-2">
+                            <div className="w-14 h-14 rounded-lg flex-shrink-0 bg-green-50 text-green-600 flex items-center justify-center">
                                 <Mic size={20} />
                             </div>
-                            <span className={`text-xs font-semibold ${isRecording ? 'text-red-600' : 'text-slate-500'}`}>
-                                {isRecording ? 'Recording...' : recordedAudio ? 'Audio Recorded' : 'Record Voice'}
-                            </span>
-                        </button>
-                    </div>
+                            <div className="flex-1 min-w-0 space-y-1">
+                                <RecordingPreview recording={recordedAudio} onChange={setRecordedAudio} disabled={isLoading} />
+                                <div className="text-xs">
+                                    <ProcessedSizeBadge
+                                        size={recordedAudio.blob.size}
+                                        processed={preprocessSettings.enabled ? processedMedia[RECORDING_KEY] : undefined}
+                                        pending={preprocessSettings.enabled}
+                                    />
+                                </div>
+                                <PhoneticTextarea
+                                    value={recordingCaption}
+                                    onChange={setRecordingCaption}
+                                    disabled={isLoading}
+                                    rows={1}
+                                    placeholder="Caption for the voice note"
+                                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs resize-none outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                            </div>
+                            <button
+                                onClick={() => { setRecordedAudio(null); setRecordingCaption(''); }}
+                                disabled={isLoading}
+                                title="Remove"
+                                className="text-slate-300 hover:text-red-500 disabled:opacity-40"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    )}
 
                     {/* Audio Visualizer */}
                     {isRecording && (
                         <div className="h-16 bg-slate-900 rounded-lg overflow-hidden relative">
-                             <AudioVisualizer stream={audioStream} isActive={isRecording} />
+                             <AudioVisualizer stream={audioStream} isActive={recorderStatus === 'recording'} />
                         </div>
                     )}
 
                     {/* Settings Row */}
-                    <div className="grid grid-cols-2 gap-4 pt-2 border-t border-slate-100">
+                    <div className="grid grid-cols-3 gap-4 pt-2 border-t border-slate-100">
+                        <div>
+                            <div className="flex items-center justify-between mb-1.5">
+                                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Brand</label>
+                                <button onClick={() => setShowBrandProfiles(true)} className="text-[10px] font-semibold text-blue-600 hover:text-blue-700">Manage</button>
+                            </div>
+                            <select
+                                value={selectedBrandId ?? ''}
+                                onChange={(e) => handleSelectBrand(e.target.value || null)}
+                                className="w-full bg-slate-50 border border-slate-200 text-slate-700 text-sm rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-blue-500/20 outline-none"
+                            >
+                                <option value="">No brand</option>
+                                {brandProfiles.map(b => (
+                                <option key={b.id} value={b.id}>{b.name}</option>
+                                ))}
+                            </select>
+                        </div>
                         <div>
                             <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Style & Tone</label>
                             <select 
@@ -548,24 +1237,94 @@ function SrotoLipiAI() {
                         </div>
                     </div>
 
+                    {/* Platform Picker */}
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Platforms</label>
+                        <div className="flex flex-wrap gap-1.5">
+                            {PLATFORMS.map(({ id, label, icon: Icon }) => {
+                                const isSelected = platforms.includes(id);
+                                return (
+                                    <button
+                                        key={id}
+                                        onClick={() => handleTogglePlatform(id)}
+                                        disabled={isLoading}
+                                        className={`flex items-center gap-1.5 text-xs font-semibold px-2.5 py-1.5 rounded-lg border transition-colors disabled:opacity-50 ${
+                                            isSelected ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'
+                                        }`}
+                                    >
+                                        <Icon size={12} /> {label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Output Language */}
+                    <div>
+                        <div className="flex items-center justify-between mb-1.5">
+                            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Output Language</label>
+                            <select
+                                value=""
+                                onChange={(e) => e.target.value && handleSetLanguage(platforms, e.target.value as OutputLanguage)}
+                                disabled={isLoading}
+                                className="text-[10px] font-semibold text-blue-600 bg-transparent outline-none cursor-pointer"
+                            >
+                                <option value="">Set all...</option>
+                                {OUTPUT_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+                            {platforms.map(id => {
+                                const { label, icon: Icon } = getPlatform(id);
+                                return (
+                                    <div key={id} className="flex items-center justify-between gap-2 text-xs text-slate-600">
+                                        <span className="flex items-center gap-1.5 truncate"><Icon size={12} className="flex-shrink-0" /> {label}</span>
+                                        <select
+                                            value={languageFor(languages, id)}
+                                            onChange={(e) => handleSetLanguage([id], e.target.value as OutputLanguage)}
+                                            disabled={isLoading}
+                                            className="bg-slate-50 border border-slate-200 text-slate-700 text-xs rounded-md px-1.5 py-1 outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50"
+                                        >
+                                            {OUTPUT_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                                        </select>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
                     {/* Action Button */}
-                    <button
-                        onClick={handleGenerate}
-                        disabled={isLoading}
-                        className="mt-2 w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-blue-600/20 active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 group"
-                    >
-                        {isLoading ? (
-                            <>
-                                <Loader2 size={20} className="animate-spin" />
-                                <span className="text-sm">Generating Content...</span>
-                            </>
-                        ) : (
-                            <>
-                                <Zap size={20} fill="currentColor" className="group-hover:scale-110 transition-transform" />
-                                <span className="text-sm">Generate Magic</span>
-                            </>
+                    <div className="mt-2 flex gap-2">
+                        <button
+                            onClick={() => { setRetryAttempt(0); handleGenerate(); }}
+                            disabled={isLoading}
+                            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-blue-600/20 active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 group"
+                        >
+                            {isLoading ? (
+                                <>
+                                    <Loader2 size={20} className="animate-spin" />
+                                    <span className="text-sm">
+                                        {uploadProgress
+                                          ? `Uploading media ${Math.round(uploadProgress.loaded / uploadProgress.total * 100)}%…`
+                                          : retryStatus ? `Retrying (${retryStatus.attempt}/${retryStatus.max})…` : 'Generating Content...'}
+                                    </span>
+                                </>
+                            ) : (
+                                <>
+                                    <Zap size={20} fill="currentColor" className="group-hover:scale-110 transition-transform" />
+                                    <span className="text-sm">Generate Magic</span>
+                                </>
+                            )}
+                        </button>
+                        {isLoading && (
+                            <button
+                                onClick={handleCancelGenerate}
+                                className="px-4 bg-white border border-slate-200 hover:border-red-300 hover:bg-red-50 text-slate-600 hover:text-red-600 font-bold rounded-xl transition-all flex items-center gap-1.5 text-sm"
+                            >
+                                <X size={16} /> Cancel
+                            </button>
                         )}
-                    </button>
+                    </div>
                  </div>
 
                  {/* Disclaimer */}
@@ -589,25 +1348,50 @@ function SrotoLipiAI() {
                     {/* Header & Tabs */}
                     <div className="bg-slate-50 border-b border-slate-200 px-4 pt-4 flex items-center justify-between">
                         <div className="flex space-x-1">
-                            <TabButton id="social" label="Social" icon={Facebook} />
-                            <TabButton id="youtube" label="YouTube" icon={Youtube} />
-                            <TabButton id="script" label="Script" icon={FileVideo} />
+                            {visibleTabs.map(tab => <TabButton key={tab.id} id={tab.id} label={tab.label} icon={tab.icon} />)}
                         </div>
                         
                         {result && !isLoading && (
-                            <button 
-                                onClick={handleGenerate}
-                                className="mb-2 flex items-center gap-1.5 text-xs font-semibold text-blue-600 bg-white border border-blue-200 hover:bg-blue-50 px-3 py-1.5 rounded-lg transition-colors shadow-sm"
-                            >
-                                <RefreshCw size={14} />
-                                Regenerate
-                            </button>
+                            <div className="flex items-center gap-2">
+                                <ExportMenu onExport={handleExport} />
+                                {currentProject && getRevisions(currentProject).length > 1 && (
+                                    <button
+                                        onClick={() => setShowRevisions(true)}
+                                        className="mb-2 flex items-center gap-1.5 text-xs font-semibold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors shadow-sm"
+                                    >
+                                        <GitCompare size={14} />
+                                        Revisions ({getRevisions(currentProject).length})
+                                    </button>
+                                )}
+                                <button 
+                                    onClick={() => handleGenerate(true)}
+                                    className="mb-2 flex items-center gap-1.5 text-xs font-semibold text-blue-600 bg-white border border-blue-200 hover:bg-blue-50 px-3 py-1.5 rounded-lg transition-colors shadow-sm"
+                                >
+                                    <RefreshCw size={14} />
+                                    Regenerate
+                                </button>
+                            </div>
                         )}
                     </div>
 
                     {/* Content Viewer */}
                     <div className="flex-1 p-6 overflow-y-auto bg-slate-50/30 custom-scrollbar">
-                        {!result ? (
+                        {/* Inline Error Panel */}
+                        {errorState && (
+                            <div className="mb-6">
+                                <ErrorPanel
+                                    error={errorState.error}
+                                    attempt={retryAttempt}
+                                    onRetry={errorState.retry && handleRetryFromPanel}
+                                    onOpenSettings={() => setShowSettings(true)}
+                                    onRemoveMedia={attachments.length > 0 || recordedAudio ? () => { setAttachments([]); setRecordedAudio(null); setErrorState(null); } : undefined}
+                                    onEditInput={() => { setErrorState(null); inputTextRef.current?.focus(); }}
+                                    onDismiss={() => setErrorState(null)}
+                                />
+                            </div>
+                        )}
+
+                        {!deck ? (
                             <div className="h-full flex flex-col items-center justify-center text-slate-400">
                                 {isLoading ? (
                                     <div className="text-center">
@@ -616,8 +1400,20 @@ function SrotoLipiAI() {
                                             <div className="absolute inset-0 border-4 border-blue-600 rounded-full border-t-transparent animate-spin"></div>
                                             <Sparkles className="absolute inset-0 m-auto text-blue-600 animate-pulse" size={24} />
                                         </div>
-                                        <h3 className="text-lg font-bold text-slate-700 mb-1">Creating Masterpiece</h3>
-                                        <p className="text-sm">Analyzing input & crafting content...</p>
+                                        {uploadProgress ? (
+                                            <>
+                                                <h3 className="text-lg font-bold text-slate-700 mb-1">Uploading Media</h3>
+                                                <div className="w-56 h-1.5 bg-slate-200 rounded-full overflow-hidden mx-auto my-2">
+                                                    <div className="h-full bg-blue-600 transition-all" style={{ width: `${uploadProgress.loaded / uploadProgress.total * 100}%` }} />
+                                                </div>
+                                                <p className="text-sm">{formatFileSize(uploadProgress.loaded)} of {formatFileSize(uploadProgress.total)}</p>
+                                            </>
+                                        ) : (
+                                            <>
+                                                <h3 className="text-lg font-bold text-slate-700 mb-1">Creating Masterpiece</h3>
+                                                <p className="text-sm">Analyzing input & crafting content...</p>
+                                            </>
+                                        )}
                                     </div>
                                 ) : (
                                     <div className="text-center opacity-60">
@@ -631,9 +1427,28 @@ function SrotoLipiAI() {
                             </div>
                         ) : (
                             <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+
+                                {/* Validation Repair Notice */}
+                                {repairNotice && (
+                                    <div className="bg-amber-50 border border-amber-100 rounded-xl p-3 flex items-start justify-between gap-3 text-xs text-amber-800">
+                                        <div className="flex gap-2">
+                                            <Wrench size={14} className="text-amber-600 flex-shrink-0 mt-0.5" />
+                                            <div>
+                                                <strong className="block mb-0.5">Response auto-repaired</strong>
+                                                {repairNotice.jsonRepaired && <span className="block">The model output was truncated or wrapped and has been recovered.</span>}
+                                                {repairNotice.repairs.map(r => (
+                                                    <span key={r.field} className="inline-block mr-2 mt-1 bg-white border border-amber-200 px-1.5 py-0.5 rounded font-medium">
+                                                        {r.field} · {r.method === 'retried' ? 'regenerated' : 'fixed'}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <button onClick={() => setRepairNotice(null)} className="text-amber-500 hover:text-amber-700"><X size={14} /></button>
+                                    </div>
+                                )}
                                 
                                 {/* Audio Player */}
-                                {result.summary && (
+                                {result?.summary && (
                                     <div className="bg-gradient-to-r from-slate-900 to-slate-800 rounded-xl p-4 text-white shadow-lg flex items-center justify-between">
                                         <div className="flex items-center gap-4">
                                             <button 
@@ -646,7 +1461,7 @@ function SrotoLipiAI() {
                                             {audioDownloadUrl && (
                                                 <a 
                                                     href={audioDownloadUrl} 
-                                                    download={`SrotoLipi-Audio-${Date.now()}.mp3`}
+                                                    download={`SrotoLipi-Audio-${Date.now()}.${audioExtension}`}
                                                     className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center shadow-md transition-all active:scale-95"
                                                     title="Download Audio"
                                                 >
@@ -654,6 +1469,36 @@ function SrotoLipiAI() {
                                                 </a>
                                             )}
 
+                                            {audioDownloadUrl && (
+                                                opusDownload ? (
+                                                    <a
+                                                        href={opusDownload.url}
+                                                        download={`SrotoLipi-Audio-${Date.now()}.${opusDownload.extension}`}
+                                                        className="h-10 px-3 rounded-full bg-white/10 hover:bg-white/20 flex items-center gap-1.5 text-xs font-bold shadow-md transition-all active:scale-95"
+                                                        title="Download compressed audio"
+                                                    >
+                                                        <Download size={14} /> Opus
+                                                    </a>
+                                                ) : (
+                                                    <button
+                                                        onClick={handleEncodeOpus}
+                                                        disabled={isEncodingOpus}
+                                                        className="h-10 px-3 rounded-full bg-white/10 hover:bg-white/20 flex items-center gap-1.5 text-xs font-bold shadow-md transition-all active:scale-95 disabled:opacity-60"
+                                                        title="Encode a smaller Opus file (takes as long as the clip)"
+                                                    >
+                                                        {isEncodingOpus ? <Loader2 size={14} className="animate-spin" /> : <Music size={14} />} Opus
+                                                    </button>
+                                                )
+                                            )}
+
+                                            <button
+                                                onClick={() => setShowVoiceSettings(true)}
+                                                className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center shadow-md transition-all active:scale-95"
+                                                title="Voice settings"
+                                            >
+                                                <Settings size={18} />
+                                            </button>
+
                                             <div>
                                                 <div className="text-[10px] uppercase font-bold text-blue-300 tracking-wider">Audio Summary</div>
                                                 <div className="text-sm font-medium">Listen to AI overview</div>
@@ -670,97 +1515,229 @@ function SrotoLipiAI() {
                                         </div>
                                     </div>
                                 )}
-
-                                {/* Social Tab Content */}
-                                {activeTab === 'social' && (
-                                    <div className="grid grid-cols-1 gap-6">
-                                        {/* Facebook with Title */}
-                                        <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow">
-                                            <div className="bg-[#1877F2] text-white px-4 py-2 flex justify-between items-center">
-                                                <div className="flex items-center gap-2 font-bold text-sm"><Facebook size={16}/> Facebook</div>
-                                                <button onClick={() => copyToClipboard(result.facebookTitle + "\n\n" + result.facebookPost)} className="text-white/80 hover:text-white"><Copy size={14}/></button>
-                                            </div>
-                                            <div className="p-4 space-y-3">
-                                                <div className="font-bold text-slate-800 text-lg border-b border-slate-100 pb-2">
-                                                    {result.facebookTitle}
-                                                </div>
-                                                <div className="text-slate-600 text-sm whitespace-pre-line leading-relaxed">
-                                                    {result.facebookPost}
-                                                </div>
-                                            </div>
+                                {result?.summary && (
+                                    <details className="bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm">
+                                        <summary className="cursor-pointer text-xs font-bold text-slate-500 uppercase">
+                                            Summary text{edited.includes('summary') && <span className="ml-2 text-[9px] text-amber-600 normal-case">edited</span>}
+                                        </summary>
+                                        <div className="pt-2">
+                                            <EditableText multiline value={result.summary} onSave={editText('summary')} disabled={!canEdit} className="text-slate-600 leading-relaxed whitespace-pre-line" />
                                         </div>
+                                    </details>
+                                )}
 
-                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                            <SocialCard platform="Instagram" icon={ImageIcon} content={result.instagramCaption} color="text-pink-600" bgColor="bg-pink-50" borderColor="border-pink-100" onCopy={() => copyToClipboard(result.instagramCaption)} />
-                                            <SocialCard platform="LinkedIn" icon={Linkedin} content={result.linkedinPost} color="text-blue-700" bgColor="bg-blue-50" borderColor="border-blue-100" onCopy={() => copyToClipboard(result.linkedinPost)} />
-                                            <SocialCard platform="X (Twitter)" icon={Twitter} content={result.twitterPost} color="text-slate-900" bgColor="bg-slate-100" borderColor="border-slate-200" onCopy={() => copyToClipboard(result.twitterPost)} />
-                                        </div>
+                                {/* Social and Blog & Email Tab Content, one registry card per platform */}
+                                {(visibleTab === 'social' || visibleTab === 'longform') && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        {visibleTab === 'social' && deck.keywords?.length ? (
+                                            <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm md:col-span-2">
+                                                <TagChips key={deck.keywords.join(',')} label="Primary Keywords" tags={deck.keywords} onCopy={copyToClipboard} />
+                                            </div>
+                                        ) : null}
+                                        {deckPlatforms.map(getPlatform).filter(p => p.tab === visibleTab).map(platform => (
+                                            <PlatformCard
+                                                key={platform.id}
+                                                platform={platform}
+                                                content={deck}
+                                                onCopy={copyToClipboard}
+                                                onEdit={canEdit ? (field, value) => editText(field)(value) : undefined}
+                                                editedFields={edited}
+                                                regenerateAction={regenerateButton({ kind: 'fields', fields: platform.fields.map(f => f.key) })}
+                                                constraint={constraintBadge}
+                                                counter={draftCounter}
+                                                footer={platform.bodyField && hashtagChips(platform.id, platform.bodyField)}
+                                            />
+                                        ))}
                                     </div>
                                 )}
 
                                 {/* YouTube Tab Content */}
-                                {activeTab === 'youtube' && (
+                                {visibleTab === 'youtube' && (
                                     <div className="space-y-6">
                                         <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
                                             <div className="flex justify-between items-start mb-3">
                                                 <span className="text-xs font-bold text-red-600 uppercase tracking-wider bg-red-50 px-2 py-1 rounded">Video Title</span>
-                                                <button onClick={() => copyToClipboard(result.youtubeTitle)} className="text-slate-400 hover:text-blue-600"><Copy size={16}/></button>
+                                                <div className="flex items-center gap-3">
+                                                    {constraintBadge('youtubeTitle')}
+                                                    {regenerateButton({ kind: 'fields', fields: ['youtubeTitle'] })}
+                                                    <button onClick={() => copyToClipboard(deck.youtubeTitle ?? '')} disabled={deck.youtubeTitle === undefined} className="text-slate-400 hover:text-blue-600 disabled:opacity-40"><Copy size={16}/></button>
+                                                </div>
                                             </div>
-                                            <h3 className="text-xl font-bold text-slate-900 leading-snug">{result.youtubeTitle}</h3>
+                                            {deck.youtubeTitle !== undefined
+                                                ? <EditableText value={deck.youtubeTitle} onSave={editText('youtubeTitle')} counter={draftCounter('youtubeTitle')} disabled={!canEdit} edited={edited.includes('youtubeTitle')} className="text-xl font-bold text-slate-900 leading-snug" />
+                                                : <PendingBlock lines={1} />}
                                         </div>
 
+                                        {(deck.thumbnailText !== undefined || deck.youtubeTags?.length) && (
+                                            <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm space-y-5">
+                                                {deck.thumbnailText !== undefined && (
+                                                    <div>
+                                                        <div className="flex justify-between items-center mb-2">
+                                                            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Thumbnail Text</span>
+                                                            <button onClick={() => copyToClipboard(deck.thumbnailText ?? '')} className="text-slate-400 hover:text-blue-600"><Copy size={14}/></button>
+                                                        </div>
+                                                        <EditableText value={deck.thumbnailText} onSave={editText('thumbnailText')} disabled={!canEdit} edited={edited.includes('thumbnailText')} className="text-2xl font-black text-slate-900 bg-yellow-100 inline-block px-3 py-1 rounded" />
+                                                    </div>
+                                                )}
+                                                {deck.youtubeTags?.length ? (
+                                                    <TagChips key={deck.youtubeTags.join(',')} label="Video Tags" tags={deck.youtubeTags} onCopy={copyToClipboard} />
+                                                ) : null}
+                                            </div>
+                                        )}
+
                                         <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
                                             <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
                                                 <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Video Description</span>
-                                                <div className="flex gap-2">
-                                                    <span className="text-xs text-slate-400 bg-slate-50 px-2 py-1 rounded">{result.youtubeDescription.split(' ').length} words</span>
-                                                    <button onClick={() => copyToClipboard(result.youtubeDescription)} className="text-slate-400 hover:text-blue-600"><Copy size={16}/></button>
+                                                <div className="flex items-center gap-2">
+                                                    {constraintBadge('youtubeDescription')}
+                                                    {regenerateButton({ kind: 'fields', fields: ['youtubeDescription'] })}
+                                                    {deck.youtubeDescription !== undefined && (
+                                                        <span className="text-xs text-slate-400 bg-slate-50 px-2 py-1 rounded">{deck.youtubeDescription.split(' ').length} words</span>
+                                                    )}
+                                                    <button onClick={() => copyToClipboard(deck.youtubeDescription ?? '')} disabled={deck.youtubeDescription === undefined} className="text-slate-400 hover:text-blue-600 disabled:opacity-40"><Copy size={16}/></button>
                                                 </div>
                                             </div>
                                             <div className="text-slate-700 text-sm leading-relaxed whitespace-pre-line h-[400px] overflow-y-auto pr-2 custom-scrollbar">
-                                                {result.youtubeDescription}
+                                                {deck.youtubeDescription !== undefined
+                                                    ? <EditableText multiline value={deck.youtubeDescription} onSave={editText('youtubeDescription')} counter={draftCounter('youtubeDescription')} disabled={!canEdit} edited={edited.includes('youtubeDescription')} />
+                                                    : <PendingBlock lines={8} />}
                                             </div>
                                         </div>
                                     </div>
                                 )}
 
                                 {/* Script Tab Content */}
-                                {activeTab === 'script' && (
+                                {visibleTab === 'script' && (
                                     <div className="space-y-4">
-                                        <div className="flex items-center justify-between text-sm text-slate-600 bg-yellow-50 p-3 rounded-lg border border-yellow-100 mb-4">
+                                        <div className="flex items-center justify-between flex-wrap gap-2 text-sm text-slate-600 bg-yellow-50 p-3 rounded-lg border border-yellow-100 mb-4">
                                             <div className="flex items-center gap-2">
                                                 <Clock size={16} className="text-yellow-600"/> 
                                                 <span className="font-semibold">Target Duration: {duration}</span>
+                                                {edited.includes('videoScript') && (
+                                                    <span className="text-[9px] font-bold uppercase text-amber-600 bg-amber-50 border border-amber-100 px-1 rounded">Edited</span>
+                                                )}
+                                            </div>
+                                            <div className="flex flex-wrap items-center justify-end gap-2">
+                                                <button
+                                                    onClick={handleNarrateScript}
+                                                    disabled={!result}
+                                                    className="text-xs font-bold text-yellow-700 hover:text-yellow-800 flex items-center gap-1 bg-white px-3 py-1.5 rounded-md shadow-sm border border-yellow-200 disabled:opacity-50"
+                                                >
+                                                    {isNarrating ? (
+                                                        <><Loader2 size={12} className="animate-spin" /> Narrating {sceneAudio.filter(a => a.status === 'ready').length}/{sceneAudio.length} · Stop</>
+                                                    ) : (
+                                                        <><Music size={12} /> Narrate Script</>
+                                                    )}
+                                                </button>
+                                                {narrationDownloadUrl && (
+                                                    <a
+                                                        href={narrationDownloadUrl}
+                                                        download={`srotolipi_narration_${Date.now()}.wav`}
+                                                        className="text-xs font-bold text-yellow-700 hover:text-yellow-800 flex items-center gap-1 bg-white px-3 py-1.5 rounded-md shadow-sm border border-yellow-200"
+                                                    >
+                                                        <Download size={12} /> Narration (.wav)
+                                                    </a>
+                                                )}
+                                                {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+                                                    <button
+                                                        key={format}
+                                                        onClick={() => handleDownloadSubtitles(format)}
+                                                        disabled={!result}
+                                                        title={`Download subtitles (.${format})`}
+                                                        className="text-xs font-bold text-yellow-700 hover:text-yellow-800 flex items-center gap-1 bg-white px-3 py-1.5 rounded-md shadow-sm border border-yellow-200 disabled:opacity-50 uppercase"
+                                                    >
+                                                        <Download size={12} /> {format}
+                                                    </button>
+                                                ))}
+                                                <button 
+                                                    onClick={() => copyToClipboard((deck.videoScript ?? []).map(s => `Scene ${s.sceneNumber}:\nVisual: ${s.visualDescription}\nAudio: ${s.voiceoverText}\n`).join('\n---\n'))}
+                                                    className="text-xs font-bold text-yellow-700 hover:text-yellow-800 flex items-center gap-1 bg-white px-3 py-1.5 rounded-md shadow-sm border border-yellow-200"
+                                                >
+                                                    <Copy size={12} /> Copy Full Script
+                                                </button>
                                             </div>
-                                            <button 
-                                                onClick={() => copyToClipboard(result.videoScript.map(s => `Scene ${s.sceneNumber}:\nVisual: ${s.visualDescription}\nAudio: ${s.voiceoverText}\n`).join('\n---\n'))}
-                                                className="text-xs font-bold text-yellow-700 hover:text-yellow-800 flex items-center gap-1 bg-white px-3 py-1.5 rounded-md shadow-sm border border-yellow-200"
-                                            >
-                                                <Copy size={12} /> Copy Full Script
-                                            </button>
                                         </div>
 
-                                        {result.videoScript.map((scene, idx) => (
+                                        {(deck.videoScript ?? []).map((scene, idx) => (
                                             <div key={idx} className="bg-white border border-slate-200 rounded-xl p-6 flex gap-6 shadow-sm hover:shadow-md transition-shadow">
-                                                <div className="flex-shrink-0 w-10 h-10 rounded-full bg-slate-900 text-white flex items-center justify-center font-bold text-base shadow-lg shadow-slate-900/20">
-                                                    {scene.sceneNumber}
+                                                <div className="flex-shrink-0 flex flex-col items-center gap-2">
+                                                    <div className="w-10 h-10 rounded-full bg-slate-900 text-white flex items-center justify-center font-bold text-base shadow-lg shadow-slate-900/20">
+                                                        {scene.sceneNumber}
+                                                    </div>
+                                                    {canEdit && (
+                                                        <div className="flex flex-col items-center gap-1 text-slate-300">
+                                                            <button onClick={() => editScript(c => moveScene(c, idx, -1))} disabled={idx === 0} title="Move up" className="hover:text-blue-600 disabled:opacity-30"><ChevronUp size={16} /></button>
+                                                            <button onClick={() => editScript(c => moveScene(c, idx, 1))} disabled={idx === (deck.videoScript?.length ?? 0) - 1} title="Move down" className="hover:text-blue-600 disabled:opacity-30"><ChevronDown size={16} /></button>
+                                                            <button onClick={() => editScript(c => removeScene(c, idx))} disabled={(deck.videoScript?.length ?? 0) <= 1} title="Delete scene" className="hover:text-red-500 disabled:opacity-30"><Trash2 size={14} /></button>
+                                                        </div>
+                                                    )}
                                                 </div>
                                                 <div className="flex-1 space-y-4">
                                                     <div>
-                                                        <span className="text-xs font-bold text-blue-600 uppercase block mb-1 flex items-center gap-1">
-                                                            <Video size={12} /> Visual Scene ({scene.duration})
-                                                        </span>
-                                                        <p className="text-slate-800 leading-relaxed bg-slate-50 p-3 rounded-lg border border-slate-100">{scene.visualDescription}</p>
+                                                        <div className="flex items-center justify-between mb-1">
+                                                            <span className="text-xs font-bold text-blue-600 uppercase flex items-center gap-1">
+                                                                <Video size={12} /> Visual Scene
+                                                            </span>
+                                                            {regenerateButton({ kind: 'scene', sceneIndex: idx })}
+                                                        </div>
+                                                        <EditableText
+                                                            value={scene.duration}
+                                                            onSave={(value) => editScript(c => updateScene(c, idx, { duration: value }))}
+                                                            disabled={!canEdit}
+                                                            placeholder="Duration, e.g. 0:15"
+                                                            className="text-xs font-semibold text-slate-500 mb-1 flex items-center gap-1"
+                                                        />
+                                                        <EditableText
+                                                            multiline
+                                                            value={scene.visualDescription}
+                                                            onSave={(value) => editScript(c => updateScene(c, idx, { visualDescription: value }))}
+                                                            disabled={!canEdit}
+                                                            placeholder="Describe the visuals"
+                                                            className="text-slate-800 leading-relaxed bg-slate-50 p-3 rounded-lg border border-slate-100"
+                                                        />
                                                     </div>
                                                     <div>
-                                                        <span className="text-xs font-bold text-green-600 uppercase block mb-1 flex items-center gap-1">
-                                                            <Mic size={12} /> Voiceover
-                                                        </span>
-                                                        <p className="text-slate-700 font-medium italic pl-4 border-l-4 border-green-200 py-1">"{scene.voiceoverText}"</p>
+                                                        <div className="flex items-center justify-between mb-1">
+                                                            <span className="text-xs font-bold text-green-600 uppercase flex items-center gap-1">
+                                                                <Mic size={12} /> Voiceover
+                                                            </span>
+                                                            {result && (
+                                                                <SceneAudioButton
+                                                                    audio={sceneAudio[idx]}
+                                                                    isPlaying={playingSceneIndex === idx}
+                                                                    isLoading={loadingSceneIndex === idx}
+                                                                    onClick={() => handlePlayScene(idx)}
+                                                                />
+                                                            )}
+                                                        </div>
+                                                        <EditableText
+                                                            multiline
+                                                            value={scene.voiceoverText}
+                                                            onSave={(value) => editScript(c => updateScene(c, idx, { voiceoverText: value }))}
+                                                            disabled={!canEdit}
+                                                            placeholder="Voiceover text"
+                                                            className="text-slate-700 font-medium italic pl-4 border-l-4 border-green-200 py-1"
+                                                        />
                                                     </div>
                                                 </div>
                                             </div>
                                         ))}
+
+                                        {canEdit && (
+                                            <button
+                                                onClick={() => editScript(c => insertScene(c, c.videoScript.length))}
+                                                className="w-full flex items-center justify-center gap-2 text-sm font-semibold text-slate-500 hover:text-blue-600 border-2 border-dashed border-slate-200 hover:border-blue-300 rounded-xl py-3 transition-colors"
+                                            >
+                                                <Plus size={16} /> Add Scene
+                                            </button>
+                                        )}
+
+                                        {/* More scenes are still streaming in */}
+                                        {!result && (
+                                            <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
+                                                <PendingBlock lines={3} />
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -781,18 +1758,60 @@ function SrotoLipiAI() {
                     <h2 className="text-lg font-bold">Project History</h2>
                     <button onClick={() => setShowMobileHistory(false)}><X size={24} /></button>
                 </div>
-                <div className="flex-1 overflow-y-auto space-y-4">
-                    {history.map(item => (
-                        <div key={item.id} onClick={() => restoreHistoryItem(item)} className="p-4 bg-slate-50 rounded-lg border border-slate-200 active:bg-blue-50">
-                            <div className="text-xs font-bold text-blue-600 mb-1">{item.tone}</div>
-                            <div className="text-sm font-medium line-clamp-2">{item.preview}</div>
-                        </div>
-                    ))}
+                <div className="flex-1 overflow-y-auto">
+                    {historyPanel}
                 </div>
             </div>
         </div>
       )}
 
+      {/* --- REVISIONS MODAL --- */}
+      {showRevisions && currentProject && (
+        <RevisionPanel
+          item={currentProject}
+          onPromote={handlePromoteRevision}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
+      {/* --- VOICE SETTINGS MODAL --- */}
+      {showVoiceSettings && (
+        <VoiceSettingsPanel
+          settings={voiceSettings}
+          providerId={providerSettings.provider}
+          onSave={handleSaveVoiceSettings}
+          onClose={() => setShowVoiceSettings(false)}
+        />
+      )}
+
+      {/* --- BRAND PROFILES MODAL --- */}
+      {showBrandProfiles && (
+        <BrandProfilesPanel
+          profiles={brandProfiles}
+          selectedId={selectedBrandId}
+          onSave={handleSaveBrandProfiles}
+          onClose={() => setShowBrandProfiles(false)}
+        />
+      )}
+
+      {/* --- PREPROCESS SETTINGS MODAL --- */}
+      {showPreprocessSettings && (
+        <PreprocessSettingsPanel
+          settings={preprocessSettings}
+          onSave={handleSavePreprocessSettings}
+          onClose={() => setShowPreprocessSettings(false)}
+        />
+      )}
+
+      {/* --- PHONETIC DICTIONARY MODAL --- */}
+      {showPhoneticDictionary && (
+        <PhoneticDictionaryPanel
+          dictionary={loadPhoneticDictionary()}
+          onSave={(dictionary) => { savePhoneticDictionary(dictionary); setShowPhoneticDictionary(false); }}
+          onClose={() => setShowPhoneticDictionary(false)}
+        />
+      )}
+
       {/* --- API KEY SETTINGS MODAL --- */}
       {showSettings && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -805,11 +1824,93 @@ function SrotoLipiAI() {
                 </div>
                 <div>
                   <h3 className="text-xl font-bold text-slate-800">API Settings</h3>
-                  <p className="text-xs text-slate-500">Configure your own Google Gemini API Key</p>
+                  <p className="text-xs text-slate-500">Choose a provider and configure its API key</p>
                 </div>
               </div>
               
               <div className="space-y-4">
+                <div>
+                  <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Generation Provider</label>
+                  <select
+                    value={tempProviderSettings.provider}
+                    onChange={(e) => setTempProviderSettings(prev => ({ ...prev, provider: e.target.value as ProviderId }))}
+                    className="w-full bg-white border border-slate-300 rounded-lg px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                  >
+                    {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map((id) => (
+                      <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {tempProviderSettings.provider === 'mock' && (
+                  <div className="text-sm text-amber-700 bg-amber-50 p-3 rounded-lg border border-amber-100">
+                    Offline mode returns fixed sample content and a silent audio clip. No API key or network is used.
+                  </div>
+                )}
+
+                {tempProviderSettings.provider === 'openai' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {([
+                      ['openaiBaseUrl', 'Base URL', 'http://localhost:8080/v1'],
+                      ['openaiApiKey', 'API Key', 'Optional'],
+                      ['openaiModel', 'Model', 'gpt-4o-mini'],
+                      ['openaiTtsModel', 'TTS Model', 'tts-1'],
+                      ['openaiVoice', 'Voice', 'alloy']
+                    ] as [keyof ProviderSettings, string, string][]).map(([field, label, placeholder]) => (
+                      <div key={field} className={field === 'openaiBaseUrl' ? 'col-span-2' : ''}>
+                        <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">{label}</label>
+                        <input
+                          type={field === 'openaiApiKey' ? 'password' : 'text'}
+                          value={tempProviderSettings[field]}
+                          onChange={(e) => setTempProviderSettings(prev => ({ ...prev, [field]: e.target.value }))}
+                          placeholder={placeholder}
+                          className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Timeout (seconds)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={Math.round(tempProviderSettings.timeoutMs / 1000)}
+                      onChange={(e) => setTempProviderSettings(prev => ({ ...prev, timeoutMs: Math.max(0, Number(e.target.value)) * 1000 }))}
+                      className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Max Retries</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={tempProviderSettings.maxRetries}
+                      onChange={(e) => setTempProviderSettings(prev => ({ ...prev, maxRetries: Math.min(10, Math.max(0, Number(e.target.value))) }))}
+                      className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                    />
+                  </div>
+                </div>
+
+                {tempProviderSettings.provider !== 'openai' && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Upload Endpoint</label>
+                    <input
+                      type="text"
+                      value={tempProviderSettings.uploadBaseUrl}
+                      onChange={(e) => setTempProviderSettings(prev => ({ ...prev, uploadBaseUrl: e.target.value.trim() }))}
+                      placeholder="Default (Google Files API)"
+                      className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                    />
+                    <p className="text-[11px] text-slate-400 mt-1">Large files are uploaded here instead of sent inline. Use http://localhost:3000 for the dev server's stand-in.</p>
+                  </div>
+                )}
+
+                {tempProviderSettings.provider === 'gemini' && (
+                <>
                 <div className="text-sm text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100">
                   By default, SrotoLipi AI uses a shared quota. For unlimited personal use, you can provide your own API key.
                 </div>
@@ -834,6 +1935,8 @@ function SrotoLipiAI() {
                     </a>
                   </div>
                 </div>
+                </>
+                )}
               </div>
 
               <div className="flex gap-3 mt-8">
@@ -867,32 +1970,27 @@ function SrotoLipiAI() {
   );
 }
 
-// Sub-component for Social Cards
-const SocialCard = ({ platform, icon: Icon, content, color, bgColor, borderColor, onCopy }: any) => {
-    const [copied, setCopied] = useState(false);
-    
-    const handleCopy = () => {
-        onCopy();
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-    };
-
-    return (
-        <div className={`bg-white border ${borderColor || 'border-slate-200'} rounded-xl p-5 hover:shadow-md transition-all group relative h-full flex flex-col`}>
-            <div className="flex items-center justify-between mb-3">
-                <div className={`flex items-center gap-2 ${color} ${bgColor} px-2 py-1 rounded-lg`}>
-                    <Icon size={16} />
-                    <span className="font-bold text-xs">{platform}</span>
-                </div>
-                <button onClick={handleCopy} className="text-slate-400 hover:text-blue-600 transition-colors">
-                    {copied ? <Check size={16} className="text-green-500"/> : <Copy size={16} />}
-                </button>
-            </div>
-            <div className="text-sm text-slate-600 leading-relaxed overflow-y-auto pr-1 custom-scrollbar flex-1 max-h-48">
-                {content}
-            </div>
-        </div>
-    );
+// Per-scene voiceover control: synthesizes on first use, then plays and stops the clip
+// `isLoading` is this button's own request, which can be stopped; narrate-all only shows progress
+const SceneAudioButton = ({ audio, isPlaying, isLoading, onClick }: { audio?: SceneAudio; isPlaying: boolean; isLoading: boolean; onClick: () => void }) => {
+  const isBusy = audio?.status === 'synthesizing';
+  return (
+    <div className="flex items-center gap-2">
+      {audio?.status === 'error' && (
+        <span className="text-[10px] font-bold text-red-500" title={audio.error}>Voiceover failed</span>
+      )}
+      <button
+        onClick={onClick}
+        disabled={isBusy && !isLoading}
+        title={isPlaying || isLoading ? 'Stop' : 'Play voiceover'}
+        className={`w-7 h-7 rounded-full flex items-center justify-center border transition-colors ${
+          isPlaying ? 'bg-green-600 border-green-600 text-white' : 'bg-white border-green-200 text-green-600 hover:bg-green-50'
+        } disabled:opacity-60`}
+      >
+        {isBusy ? <Loader2 size={12} className="animate-spin" /> : isPlaying ? <Pause size={12} /> : <Play size={12} />}
+      </button>
+    </div>
+  );
 };
 
 export default SrotoLipiAI;
\ No newline at end of file
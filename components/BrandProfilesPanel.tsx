@@ -0,0 +1,300 @@
+import React, { useRef, useState } from 'react';
+import { BadgeCheck, Download, Plus, Trash2, Upload, X } from 'lucide-react';
+import { BrandProfile, Tone } from '../types';
+import {
+  createBrandProfile,
+  exportBrandProfiles,
+  formatSpellingLines,
+  mergeBrandProfiles,
+  parseBrandProfiles,
+  parseSpellingLines
+} from '../services/brands';
+
+interface BrandProfilesPanelProps {
+  profiles: BrandProfile[];
+  selectedId: string | null;
+  onSave: (profiles: BrandProfile[]) => void;
+  onClose: () => void;
+}
+
+// List fields are edited as plain text and parsed when the profile is committed
+interface BrandDraft {
+  name: string;
+  description: string;
+  dos: string;
+  donts: string;
+  bannedWords: string;
+  spellings: string;
+  defaultCta: string;
+  samplePosts: string[];
+  defaultTone: Tone;
+}
+
+const fieldClass = 'w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all';
+const labelClass = 'block text-xs font-bold text-slate-700 uppercase mb-1.5';
+
+const toDraft = (profile: BrandProfile): BrandDraft => ({
+  name: profile.name,
+  description: profile.description,
+  dos: profile.dos.join('\n'),
+  donts: profile.donts.join('\n'),
+  bannedWords: profile.bannedWords.join(', '),
+  spellings: formatSpellingLines(profile.spellings),
+  defaultCta: profile.defaultCta,
+  samplePosts: profile.samplePosts.length ? profile.samplePosts : [''],
+  defaultTone: profile.defaultTone
+});
+
+const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const fromDraft = (profile: BrandProfile, draft: BrandDraft): BrandProfile => ({
+  ...profile,
+  name: draft.name.trim(),
+  description: draft.description.trim(),
+  dos: lines(draft.dos),
+  donts: lines(draft.donts),
+  bannedWords: draft.bannedWords.split(/[,\n]/).map(word => word.trim()).filter(Boolean),
+  spellings: parseSpellingLines(draft.spellings),
+  defaultCta: draft.defaultCta.trim(),
+  samplePosts: draft.samplePosts.map(post => post.trim()).filter(Boolean),
+  defaultTone: draft.defaultTone,
+  updatedAt: Date.now()
+});
+
+const downloadJson = (text: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const BrandProfilesPanel: React.FC<BrandProfilesPanelProps> = ({ profiles, selectedId, onSave, onClose }) => {
+  const [list, setList] = useState<BrandProfile[]>(profiles);
+  const [editingId, setEditingId] = useState<string | null>(selectedId ?? profiles[0]?.id ?? null);
+  const [draft, setDraft] = useState<BrandDraft | null>(() => {
+    const profile = profiles.find(p => p.id === (selectedId ?? profiles[0]?.id));
+    return profile ? toDraft(profile) : null;
+  });
+  const [message, setMessage] = useState<{ text: string; isError?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<BrandDraft>) => setDraft(prev => prev && ({ ...prev, ...patch }));
+
+  // Writes the open form back into the list; returns null if it cannot be saved yet
+  const commit = (): BrandProfile[] | null => {
+    if (!editingId || !draft) return list;
+    if (!draft.name.trim()) {
+      setMessage({ text: 'Every brand needs a name.', isError: true });
+      return null;
+    }
+    const next = list.map(p => p.id === editingId ? fromDraft(p, draft) : p);
+    setList(next);
+    return next;
+  };
+
+  const open = (profile: BrandProfile, from: BrandProfile[] = list) => {
+    setList(from);
+    setEditingId(profile.id);
+    setDraft(toDraft(profile));
+    setMessage(null);
+  };
+
+  const handleSelect = (profile: BrandProfile) => {
+    const next = commit();
+    if (next) open(profile, next);
+  };
+
+  const handleNew = () => {
+    const next = commit();
+    if (!next) return;
+    const profile = createBrandProfile({ name: `Brand ${next.length + 1}` });
+    open(profile, [...next, profile]);
+  };
+
+  const handleDelete = () => {
+    const next = list.filter(p => p.id !== editingId);
+    setList(next);
+    if (next[0]) open(next[0], next);
+    else {
+      setEditingId(null);
+      setDraft(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseBrandProfiles(await file.text());
+      const next = mergeBrandProfiles(commit() ?? list, imported);
+      open(imported[0], next);
+      setMessage({ text: `Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}.` });
+    } catch (error: any) {
+      setMessage({ text: error.message, isError: true });
+    }
+  };
+
+  const handleExport = (all: boolean) => {
+    const next = commit();
+    if (!next) return;
+    const chosen = all ? next : next.filter(p => p.id === editingId);
+    const name = all ? 'all' : chosen[0].name.toLowerCase().replace(/[^a-z0-9ঀ-৿]+/g, '-');
+    downloadJson(exportBrandProfiles(chosen), `srotolipi_brand_${name}.json`);
+  };
+
+  const handleSave = () => {
+    const next = commit();
+    if (next) onSave(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden relative z-10 animate-in zoom-in-95 duration-200 flex flex-col">
+        <div className="p-6 pb-4 flex items-center gap-3 border-b border-slate-100">
+          <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+            <BadgeCheck size={24} />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">Brand Profiles</h3>
+            <p className="text-xs text-slate-500">Reusable brand voices added to every generation for that brand</p>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Profile list */}
+          <div className="w-48 border-r border-slate-100 p-3 space-y-1 overflow-y-auto flex-shrink-0">
+            {list.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => handleSelect(profile)}
+                className={`w-full text-left text-sm px-3 py-2 rounded-lg truncate ${
+                  profile.id === editingId ? 'bg-blue-50 text-blue-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {(profile.id === editingId ? draft?.name : profile.name) || 'Untitled'}
+              </button>
+            ))}
+            <button onClick={handleNew} className="w-full flex items-center gap-1.5 text-sm font-semibold text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-lg">
+              <Plus size={14} /> New brand
+            </button>
+          </div>
+
+          {/* Profile form */}
+          <div className="flex-1 p-6 space-y-4 overflow-y-auto">
+            {!draft ? (
+              <p className="text-sm text-slate-400 text-center py-12">No brand profiles yet. Create one or import a shared file.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Name</label>
+                    <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Default Tone</label>
+                    <select value={draft.defaultTone} onChange={(e) => update({ defaultTone: e.target.value as Tone })} className={fieldClass}>
+                      {Object.values(Tone).map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Description</label>
+                  <textarea rows={2} value={draft.description} onChange={(e) => update({ description: e.target.value })} placeholder="Who the brand is and who it talks to" className={fieldClass} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Do (one per line)</label>
+                    <textarea rows={4} value={draft.dos} onChange={(e) => update({ dos: e.target.value })} className={fieldClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Don't (one per line)</label>
+                    <textarea rows={4} value={draft.donts} onChange={(e) => update({ donts: e.target.value })} className={fieldClass} />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Banned Words</label>
+                  <input value={draft.bannedWords} onChange={(e) => update({ bannedWords: e.target.value })} placeholder="Comma separated" className={fieldClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Preferred Spellings</label>
+                  <textarea rows={3} value={draft.spellings} onChange={(e) => update({ spellings: e.target.value })} placeholder={'One per line: avoid -> preferred\nসরকারী -> সরকারি'} className={`${fieldClass} font-mono`} />
+                </div>
+                <div>
+                  <label className={labelClass}>Default Call to Action</label>
+                  <input value={draft.defaultCta} onChange={(e) => update({ defaultCta: e.target.value })} className={fieldClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Sample Posts</label>
+                  <div className="space-y-2">
+                    {draft.samplePosts.map((post, index) => (
+                      <div key={index} className="flex gap-2">
+                        <textarea
+                          rows={3}
+                          value={post}
+                          onChange={(e) => update({ samplePosts: draft.samplePosts.map((p, i) => i === index ? e.target.value : p) })}
+                          placeholder="A post written in the brand's voice"
+                          className={fieldClass}
+                        />
+                        <button
+                          onClick={() => update({ samplePosts: draft.samplePosts.filter((_, i) => i !== index) })}
+                          className="text-slate-300 hover:text-red-500 self-start mt-2"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    ))}
+                    <button onClick={() => update({ samplePosts: [...draft.samplePosts, ''] })} className="flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-700">
+                      <Plus size={12} /> Add sample
+                    </button>
+                  </div>
+                  <p className="text-[11px] text-slate-400 mt-1">The first three samples are sent as examples with every generation.</p>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 border border-slate-200 hover:bg-slate-50 px-3 py-2 rounded-lg">
+            <Upload size={14} /> Import
+          </button>
+          <button onClick={() => handleExport(false)} disabled={!draft} className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 border border-slate-200 hover:bg-slate-50 px-3 py-2 rounded-lg disabled:opacity-40">
+            <Download size={14} /> Export
+          </button>
+          <button onClick={() => handleExport(true)} disabled={list.length === 0} className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 border border-slate-200 hover:bg-slate-50 px-3 py-2 rounded-lg disabled:opacity-40">
+            <Download size={14} /> Export all
+          </button>
+          {draft && (
+            <button onClick={handleDelete} className="flex items-center gap-1.5 text-xs font-semibold text-red-600 border border-red-100 hover:bg-red-50 px-3 py-2 rounded-lg">
+              <Trash2 size={14} /> Delete
+            </button>
+          )}
+          {message && <span className={`text-xs ${message.isError ? 'text-red-600' : 'text-green-600'}`}>{message.text}</span>}
+          <button
+            onClick={handleSave}
+            className="ml-auto bg-blue-600 hover:bg-blue-700 text-white px-5 py-2 rounded-xl shadow-lg shadow-blue-600/20 text-sm font-bold transition-all active:scale-[0.98]"
+          >
+            Save Brands
+          </button>
+        </div>
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BrandProfilesPanel;
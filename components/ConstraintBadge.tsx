@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle, Loader2, Scissors } from 'lucide-react';
+import { FieldCheck } from '../services/platformRules';
+
+interface ConstraintBadgeProps {
+  check: FieldCheck;
+  onAutoFit?: () => void;
+  isFitting?: boolean;
+}
+
+// Live length / hashtag count for a field, with its violations and an auto-fit action
+const ConstraintBadge: React.FC<ConstraintBadgeProps> = ({ check, onAutoFit, isFitting }) => {
+  const { rule, length, hashtags, violations } = check;
+  const hasViolations = violations.length > 0;
+  const nearLimit = length > rule.maxLength * 0.9;
+
+  const tone = hasViolations
+    ? 'bg-red-50 text-red-600 border-red-200'
+    : nearLimit
+      ? 'bg-amber-50 text-amber-600 border-amber-200'
+      : 'bg-slate-50 text-slate-400 border-slate-200';
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <span
+        className={`flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded border ${tone}`}
+        title={hasViolations ? violations.join('\n') : rule.count === 'x-weighted' ? 'Weighted as X counts it' : 'Characters (grapheme clusters)'}
+      >
+        {hasViolations && <AlertTriangle size={10} />}
+        {length}/{rule.maxLength}
+        {rule.maxHashtags !== undefined && <span className="opacity-70">· #{hashtags}/{rule.maxHashtags}</span>}
+      </span>
+      {hasViolations && onAutoFit && (
+        <button
+          onClick={onAutoFit}
+          disabled={isFitting}
+          title="Ask the model to shorten only this field"
+          className="flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded border bg-white border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-60"
+        >
+          {isFitting ? <Loader2 size={10} className="animate-spin" /> : <Scissors size={10} />} Auto-fit
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConstraintBadge;
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pencil, Check, X } from 'lucide-react';
+import PhoneticTextarea from './PhoneticTextarea';
+import PhoneticToggle from './PhoneticToggle';
+
+interface EditableTextProps {
+  value: string;
+  onSave: (value: string) => void;
+  multiline?: boolean;
+  disabled?: boolean;
+  edited?: boolean; // shows the "Edited" marker
+  className?: string; // classes for the displayed text
+  placeholder?: string;
+  counter?: (draft: string) => React.ReactNode; // live count shown while editing
+}
+
+// Click-to-edit text with phonetic Bengali typing. Ctrl/Cmd+Enter (or Enter for single-line
+// fields) saves, Escape cancels.
+const EditableText: React.FC<EditableTextProps> = ({ value, onSave, multiline, disabled, edited, className, placeholder, counter }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(value);
+  }, [value, isEditing]);
+
+  // Grow with the content instead of scrolling inside a small box
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [draft, isEditing]);
+
+  const save = () => {
+    setIsEditing(false);
+    if (draft !== value) onSave(draft);
+  };
+
+  const cancel = () => {
+    setIsEditing(false);
+    setDraft(value);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2">
+        <PhoneticTextarea
+          inputRef={textareaRef}
+          autoFocus
+          value={draft}
+          rows={multiline ? 3 : 1}
+          onChange={setDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') cancel();
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey || !multiline)) {
+              e.preventDefault();
+              save();
+            }
+          }}
+          placeholder={placeholder}
+          className={`w-full resize-none bg-white border border-blue-300 rounded-lg p-2 outline-none focus:ring-2 focus:ring-blue-500/20 ${className ?? ''}`}
+        />
+        <div className="flex items-center justify-end gap-2">
+          <PhoneticToggle />
+          <div className="mr-auto">{counter?.(draft)}</div>
+          <button onClick={cancel} className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-slate-700 px-2 py-1 rounded-md">
+            <X size={12} /> Cancel
+          </button>
+          <button onClick={save} className="flex items-center gap-1 text-xs font-semibold text-white bg-blue-600 hover:bg-blue-700 px-2 py-1 rounded-md">
+            <Check size={12} /> Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group/edit relative">
+      <div className={className}>{value || <span className="text-slate-300 italic">{placeholder}</span>}</div>
+      {!disabled && (
+        <div className="absolute -top-1 right-0 flex items-center gap-1">
+          {edited && <span className="text-[9px] font-bold uppercase text-amber-600 bg-amber-50 border border-amber-100 px-1 rounded">Edited</span>}
+          <button
+            onClick={() => setIsEditing(true)}
+            title="Edit"
+            className="p-1 rounded-md bg-white/90 text-slate-400 hover:text-blue-600 shadow-sm border border-slate-100 opacity-0 group-hover/edit:opacity-100 transition-opacity"
+          >
+            <Pencil size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EditableText;
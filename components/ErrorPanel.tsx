@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Gauge, ShieldAlert, FileWarning, FileX, WifiOff, FileJson, AlertTriangle, X, Settings, RefreshCw, Trash2, PenLine } from 'lucide-react';
+import { GenerationError, GenerationErrorKind } from '../services/errors';
+import { backoffDelayMs } from '../services/retry';
+
+interface ErrorPanelProps {
+  error: GenerationError;
+  attempt: number; // how many times this failure has been retried from the panel
+  onRetry?: () => void;
+  onOpenSettings: () => void;
+  onRemoveMedia?: () => void;
+  onEditInput: () => void;
+  onDismiss: () => void;
+}
+
+const ERROR_COPY: Record<GenerationErrorKind, { icon: any; title: string; hint: string }> = {
+  InvalidKey: {
+    icon: KeyRound,
+    title: 'API key missing or invalid',
+    hint: 'Open Settings and paste a valid API key, or switch to another provider.'
+  },
+  QuotaExceeded: {
+    icon: Gauge,
+    title: 'Quota exceeded',
+    hint: 'The request limit was reached. Wait a moment and retry, or use your own API key in Settings.'
+  },
+  SafetyBlocked: {
+    icon: ShieldAlert,
+    title: 'Blocked by the safety filter',
+    hint: 'Rephrase your topic or remove sensitive media, then try again.'
+  },
+  PayloadTooLarge: {
+    icon: FileWarning,
+    title: 'Media is too large',
+    hint: 'Remove the attached media or use a shorter clip / smaller image.'
+  },
+  UnsupportedMedia: {
+    icon: FileX,
+    title: 'Media type not supported',
+    hint: 'Convert the file to a common format (JPEG, PNG, MP4, MP3, WAV) or remove it.'
+  },
+  Network: {
+    icon: WifiOff,
+    title: 'Network problem',
+    hint: 'The service could not be reached. Check your connection and retry.'
+  },
+  MalformedResponse: {
+    icon: FileJson,
+    title: 'Unexpected response',
+    hint: 'The model returned something we could not read. Retrying usually fixes this.'
+  },
+  Cancelled: {
+    icon: X,
+    title: 'Cancelled',
+    hint: 'The request was cancelled.'
+  },
+  Unknown: {
+    icon: AlertTriangle,
+    title: 'Something went wrong',
+    hint: 'Please try again.'
+  }
+};
+
+const RETRYABLE: GenerationErrorKind[] = ['QuotaExceeded', 'Network', 'MalformedResponse', 'Unknown'];
+
+// Manual retries after a quota error back off like the automatic ones
+const retryDelayMs = (error: GenerationError, attempt: number) =>
+  error.kind === 'QuotaExceeded' || error.retryAfterMs ? backoffDelayMs(attempt + 1, error) : 0;
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, attempt, onRetry, onOpenSettings, onRemoveMedia, onEditInput, onDismiss }) => {
+  const [waitMs, setWaitMs] = useState(0);
+
+  useEffect(() => {
+    const readyAt = Date.now() + retryDelayMs(error, attempt);
+    const tick = () => setWaitMs(Math.max(0, readyAt - Date.now()));
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [error, attempt]);
+
+  const { icon: Icon, title, hint } = ERROR_COPY[error.kind];
+  const actionClass = 'flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-lg border transition-colors';
+
+  return (
+    <div className="bg-red-50 border border-red-100 rounded-xl p-4 flex gap-3">
+      <Icon size={20} className="text-red-500 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between gap-2">
+          <strong className="text-sm text-red-800">{title}</strong>
+          <button onClick={onDismiss} className="text-red-300 hover:text-red-500"><X size={16} /></button>
+        </div>
+        <p className="text-xs text-red-700 mt-1">{hint}</p>
+        <p className="text-[10px] text-red-400 mt-1 break-words line-clamp-2" title={error.message}>{error.message}</p>
+
+        <div className="flex flex-wrap gap-2 mt-3">
+          {error.kind === 'InvalidKey' && (
+            <button onClick={onOpenSettings} className={`${actionClass} bg-white border-red-200 text-red-700 hover:bg-red-100`}>
+              <Settings size={12} /> Open Settings
+            </button>
+          )}
+          {error.kind === 'QuotaExceeded' && (
+            <button onClick={onOpenSettings} className={`${actionClass} bg-white border-red-200 text-red-700 hover:bg-red-100`}>
+              <Settings size={12} /> Use my own key
+            </button>
+          )}
+          {(error.kind === 'PayloadTooLarge' || error.kind === 'UnsupportedMedia') && onRemoveMedia && (
+            <button onClick={onRemoveMedia} className={`${actionClass} bg-white border-red-200 text-red-700 hover:bg-red-100`}>
+              <Trash2 size={12} /> Remove media
+            </button>
+          )}
+          {error.kind === 'SafetyBlocked' && (
+            <button onClick={onEditInput} className={`${actionClass} bg-white border-red-200 text-red-700 hover:bg-red-100`}>
+              <PenLine size={12} /> Edit input
+            </button>
+          )}
+          {onRetry && RETRYABLE.includes(error.kind) && (
+            <button
+              onClick={onRetry}
+              disabled={waitMs > 0}
+              className={`${actionClass} bg-red-600 border-red-600 text-white hover:bg-red-700 disabled:opacity-60`}
+            >
+              <RefreshCw size={12} />
+              {waitMs > 0 ? `Retry in ${Math.ceil(waitMs / 1000)}s` : 'Retry'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Download, FileJson, FileText, Globe, Archive, Loader2 } from 'lucide-react';
+import { ExportFormat } from '../services/exporters';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; hint: string; icon: any }[] = [
+  { format: 'zip', label: 'Full bundle (.zip)', hint: 'Everything below plus audio & subtitles', icon: Archive },
+  { format: 'markdown', label: 'Markdown brief', hint: 'One section per platform', icon: FileText },
+  { format: 'html', label: 'Printable page', hint: 'Open and print to PDF', icon: Globe },
+  { format: 'json', label: 'Structured JSON', hint: 'Content with tone and date', icon: FileJson }
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="mb-2 flex items-center gap-1.5 text-xs font-semibold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors shadow-sm disabled:opacity-50"
+      >
+        <Download size={14} />
+        Export
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-9 z-40 w-64 bg-white border border-slate-200 rounded-xl shadow-xl p-1.5">
+            {OPTIONS.map(({ format, label, hint, icon: Icon }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={busyFormat !== null}
+                className="w-full flex items-start gap-3 text-left px-3 py-2 rounded-lg hover:bg-slate-50 disabled:opacity-60"
+              >
+                {busyFormat === format
+                  ? <Loader2 size={16} className="animate-spin text-blue-600 mt-0.5" />
+                  : <Icon size={16} className="text-slate-500 mt-0.5" />}
+                <span>
+                  <span className="block text-sm font-semibold text-slate-700">{label}</span>
+                  <span className="block text-[11px] text-slate-400">{hint}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { Search, SlidersHorizontal, Pin, PinOff, Star, Tag, Trash2, Clock, X, Pencil } from 'lucide-react';
+import { HistoryItem, Tone } from '../types';
+import {
+  EMPTY_HISTORY_FILTERS,
+  HISTORY_PLATFORM_LABELS,
+  HistoryFilters,
+  HistoryPlatform,
+  collectTags,
+  filterHistory,
+  hasActiveFilters,
+  normalizeTag
+} from '../services/historySearch';
+import { editedFields } from '../services/revisions';
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  currentId: string | null;
+  onRestore: (item: HistoryItem) => void;
+  onDelete: (id: string, e: React.MouseEvent) => void;
+  onTogglePin: (id: string) => void;
+  onUpdateTags: (id: string, tags: string[]) => void;
+}
+
+const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none';
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ items, currentId, onRestore, onDelete, onTogglePin, onUpdateTags }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+
+  const visibleItems = useMemo(() => filterHistory(items, filters), [items, filters]);
+  const allTags = useMemo(() => collectTags(items), [items]);
+  const isFiltered = hasActiveFilters(filters);
+
+  const update = (patch: Partial<HistoryFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const addTag = (item: HistoryItem) => {
+    const tag = normalizeTag(tagDraft);
+    if (tag && !(item.tags ?? []).includes(tag)) onUpdateTags(item.id, [...(item.tags ?? []), tag]);
+    setTagDraft('');
+    setTaggingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search projects..."
+            className={`${inputClass} pl-6`}
+          />
+        </div>
+        <button
+          onClick={() => update({ pinnedOnly: !filters.pinnedOnly })}
+          title="Pinned only"
+          className={`p-1.5 rounded-lg border ${filters.pinnedOnly ? 'bg-amber-50 border-amber-300 text-amber-600' : 'border-slate-200 text-slate-400 hover:text-slate-600'}`}
+        >
+          <Star size={12} fill={filters.pinnedOnly ? 'currentColor' : 'none'} />
+        </button>
+        <button
+          onClick={() => setShowFilters(open => !open)}
+          title="Filters"
+          className={`p-1.5 rounded-lg border ${showFilters ? 'bg-blue-50 border-blue-300 text-blue-600' : 'border-slate-200 text-slate-400 hover:text-slate-600'}`}
+        >
+          <SlidersHorizontal size={12} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 bg-slate-50 border border-slate-100 rounded-lg p-2">
+          <select value={filters.tone} onChange={(e) => update({ tone: e.target.value as Tone | '' })} className={inputClass}>
+            <option value="">All tones</option>
+            {Object.values(Tone).map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select value={filters.platform} onChange={(e) => update({ platform: e.target.value as HistoryPlatform | '' })} className={inputClass}>
+            <option value="">All platforms</option>
+            {(Object.keys(HISTORY_PLATFORM_LABELS) as HistoryPlatform[]).map(p => (
+              <option key={p} value={p}>{HISTORY_PLATFORM_LABELS[p]}</option>
+            ))}
+          </select>
+          <input type="date" value={filters.fromDate} onChange={(e) => update({ fromDate: e.target.value })} className={inputClass} title="From" />
+          <input type="date" value={filters.toDate} onChange={(e) => update({ toDate: e.target.value })} className={inputClass} title="To" />
+          {allTags.length > 0 && (
+            <select value={filters.tag} onChange={(e) => update({ tag: e.target.value })} className={`${inputClass} col-span-2`}>
+              <option value="">All tags</option>
+              {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+            </select>
+          )}
+        </div>
+      )}
+
+      {isFiltered && (
+        <div className="flex items-center justify-between text-[10px] text-slate-400 px-1">
+          <span>{visibleItems.length} of {items.length} projects</span>
+          <button onClick={() => setFilters(EMPTY_HISTORY_FILTERS)} className="font-semibold text-blue-600 hover:text-blue-700">Clear filters</button>
+        </div>
+      )}
+
+      {visibleItems.length === 0 ? (
+        <div className="text-center py-10 text-slate-400">
+          <Clock size={32} className="mx-auto mb-2 opacity-30" />
+          <p className="text-sm">{items.length === 0 ? 'No recent history' : 'No matching projects'}</p>
+        </div>
+      ) : (
+        visibleItems.map((item) => (
+          <div
+            key={item.id}
+            onClick={() => onRestore(item)}
+            className={`bg-slate-50 hover:bg-white border p-3 rounded-lg cursor-pointer transition-all group shadow-sm hover:shadow-md ${
+              item.id === currentId ? 'border-blue-300' : 'border-transparent hover:border-blue-200'
+            }`}
+          >
+            <div className="flex justify-between items-start mb-1">
+              <span className="flex items-center gap-1.5">
+                <span className="text-[10px] font-bold text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded uppercase">{item.tone}</span>
+                {item.brandName && (
+                  <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded truncate max-w-[90px]">{item.brandName}</span>
+                )}
+                {editedFields(item).length > 0 && (
+                  <span title="Manually edited" className="text-amber-500"><Pencil size={10} /></span>
+                )}
+              </span>
+              <div className="flex items-center gap-1.5">
+                <button
+                  onClick={(e) => { e.stopPropagation(); setTaggingId(item.id); setTagDraft(''); }}
+                  title="Add tag"
+                  className="text-slate-300 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Tag size={12} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onTogglePin(item.id); }}
+                  title={item.pinned ? 'Unpin' : 'Pin'}
+                  className={`transition-opacity ${item.pinned ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500 opacity-0 group-hover:opacity-100'}`}
+                >
+                  {item.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                </button>
+                <button onClick={(e) => onDelete(item.id, e)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+            <h3 className="text-xs font-medium text-slate-700 line-clamp-2 mb-2">{item.preview}</h3>
+
+            {((item.tags?.length ?? 0) > 0 || taggingId === item.id) && (
+              <div className="flex flex-wrap gap-1 mb-2" onClick={(e) => e.stopPropagation()}>
+                {(item.tags ?? []).map(tag => (
+                  <span key={tag} className="flex items-center gap-0.5 text-[10px] font-semibold text-slate-600 bg-slate-200/70 px-1.5 py-0.5 rounded">
+                    <button onClick={() => update({ tag })}>#{tag}</button>
+                    <button onClick={() => onUpdateTags(item.id, (item.tags ?? []).filter(t => t !== tag))} className="text-slate-400 hover:text-red-500">
+                      <X size={9} />
+                    </button>
+                  </span>
+                ))}
+                {taggingId === item.id && (
+                  <input
+                    autoFocus
+                    value={tagDraft}
+                    onChange={(e) => setTagDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') addTag(item);
+                      if (e.key === 'Escape') setTaggingId(null);
+                    }}
+                    onBlur={() => addTag(item)}
+                    placeholder="tag"
+                    className="w-20 text-[10px] border border-blue-200 rounded px-1 py-0.5 outline-none"
+                  />
+                )}
+              </div>
+            )}
+
+            <div className="text-[10px] text-slate-400 flex items-center gap-1">
+              <Clock size={10} /> {new Date(item.timestamp).toLocaleDateString()}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { GripVertical, Music, X } from 'lucide-react';
+import { MediaAttachment } from '../types';
+import { moveAttachment } from '../services/media';
+import { ProcessedMedia } from '../services/mediaPreprocess';
+import PhoneticTextarea from './PhoneticTextarea';
+import ProcessedSizeBadge from './ProcessedSizeBadge';
+
+interface MediaAttachmentListProps {
+  attachments: MediaAttachment[];
+  onChange: (attachments: MediaAttachment[]) => void;
+  // Preprocessing results by attachment id, while preprocessing is on
+  processed?: Record<string, ProcessedMedia>;
+  disabled?: boolean;
+}
+
+const MediaThumbnail: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (file.type.startsWith('audio/')) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const boxClass = 'w-14 h-14 rounded-lg flex-shrink-0 bg-slate-100 object-cover';
+  if (file.type.startsWith('image/') && url) return <img src={url} alt={file.name} className={boxClass} />;
+  // The fragment makes the browser show a frame from just after the start instead of a black box
+  if (file.type.startsWith('video/') && url) return <video src={`${url}#t=0.1`} muted preload="metadata" className={boxClass} />;
+  return (
+    <div className={`${boxClass} flex items-center justify-center text-amber-500`}>
+      <Music size={20} />
+    </div>
+  );
+};
+
+// Attached files in the order they are sent, each with a caption. Drag a row by its handle to reorder.
+const MediaAttachmentList: React.FC<MediaAttachmentListProps> = ({ attachments, onChange, processed, disabled }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const update = (id: string, caption: string) =>
+    onChange(attachments.map(a => a.id === id ? { ...a, caption } : a));
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {attachments.map((attachment, index) => (
+        <div
+          key={attachment.id}
+          onDragOver={(e) => {
+            if (dragIndex === null) return; // files dragged in from outside go to the dropzone
+            e.preventDefault();
+            setOverIndex(index);
+          }}
+          onDrop={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            e.stopPropagation();
+            onChange(moveAttachment(attachments, dragIndex, index));
+            endDrag();
+          }}
+          className={`flex items-start gap-2 bg-white border rounded-xl p-2 transition-colors ${
+            overIndex === index && dragIndex !== index ? 'border-blue-400 bg-blue-50/50' : 'border-slate-200'
+          } ${dragIndex === index ? 'opacity-50' : ''}`}
+        >
+          <div
+            draggable={!disabled && attachments.length > 1}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragEnd={endDrag}
+            title="Drag to reorder"
+            className={`self-center text-slate-300 ${attachments.length > 1 && !disabled ? 'cursor-grab hover:text-slate-500' : 'opacity-40'}`}
+          >
+            <GripVertical size={16} />
+          </div>
+          <MediaThumbnail file={attachment.file} />
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-bold text-slate-400">{index + 1}</span>
+              <span className="font-semibold text-slate-700 truncate">{attachment.file.name}</span>
+              <ProcessedSizeBadge size={attachment.file.size} processed={processed?.[attachment.id]} pending={!!processed} />
+            </div>
+            <PhoneticTextarea
+              value={attachment.caption}
+              onChange={(caption) => update(attachment.id, caption)}
+              disabled={disabled}
+              rows={1}
+              placeholder="Caption: what should the model notice here?"
+              className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs resize-none outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+            />
+          </div>
+          <button
+            onClick={() => onChange(attachments.filter(a => a.id !== attachment.id))}
+            disabled={disabled}
+            title="Remove"
+            className="text-slate-300 hover:text-red-500 disabled:opacity-40"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MediaAttachmentList;
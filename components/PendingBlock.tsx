@@ -0,0 +1,16 @@
+import React from 'react';
+
+interface PendingBlockProps {
+  lines: number;
+}
+
+// Placeholder shown for a field that has not finished streaming yet
+const PendingBlock: React.FC<PendingBlockProps> = ({ lines }) => (
+  <div className="space-y-2 animate-pulse">
+    {[...Array(lines)].map((_, i) => (
+      <div key={i} className={`h-3 bg-slate-200 rounded ${i === lines - 1 && lines > 1 ? 'w-2/3' : 'w-full'}`}></div>
+    ))}
+  </div>
+);
+
+export default PendingBlock;
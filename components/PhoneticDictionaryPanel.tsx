@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { BookA, Plus, Trash2, X } from 'lucide-react';
+import { PHONETIC_SHORTCUT, PhoneticDictionary, fixCase, transliterate } from '../services/phonetic';
+import PhoneticTextarea from './PhoneticTextarea';
+
+interface PhoneticDictionaryPanelProps {
+  dictionary: PhoneticDictionary;
+  onSave: (dictionary: PhoneticDictionary) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all';
+
+// Words the phonetic typing should always spell a certain way. Candidates picked while
+// typing are added here automatically.
+const PhoneticDictionaryPanel: React.FC<PhoneticDictionaryPanelProps> = ({ dictionary, onSave, onClose }) => {
+  const [entries, setEntries] = useState<[string, string][]>(() => Object.entries(dictionary).sort(([a], [b]) => a.localeCompare(b)));
+  const [roman, setRoman] = useState('');
+  const [word, setWord] = useState('');
+
+  const addEntry = () => {
+    const key = fixCase(roman.trim());
+    const value = word.trim() || transliterate(key);
+    if (!key || !value) return;
+    setEntries(prev => [...prev.filter(([r]) => r !== key), [key, value] as [string, string]].sort(([a], [b]) => a.localeCompare(b)));
+    setRoman('');
+    setWord('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md relative z-10 overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+              <BookA size={24} />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-slate-800">Phonetic Dictionary</h3>
+              <p className="text-xs text-slate-500">Toggle phonetic typing with {PHONETIC_SHORTCUT}</p>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-2 mb-4">
+            <input
+              value={roman}
+              onChange={(e) => setRoman(e.target.value)}
+              placeholder="Roman, e.g. shikkha"
+              className={`${fieldClass} font-mono`}
+            />
+            <div className="w-full">
+              <PhoneticTextarea
+                value={word}
+                onChange={setWord}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addEntry();
+                  }
+                }}
+                rows={1}
+                placeholder={roman.trim() ? transliterate(roman.trim()) : 'বাংলা'}
+                className={`${fieldClass} resize-none`}
+              />
+            </div>
+            <button onClick={addEntry} disabled={!roman.trim()} title="Add word" className="p-2.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-40">
+              <Plus size={16} />
+            </button>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-lg">
+            {entries.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-8">No words yet</p>
+            ) : entries.map(([r, w]) => (
+              <div key={r} className="flex items-center gap-3 px-3 py-2 text-sm group">
+                <span className="font-mono text-slate-500 flex-1 truncate">{r}</span>
+                <span className="text-slate-800 flex-1 truncate">{w}</span>
+                <button onClick={() => setEntries(prev => prev.filter(([key]) => key !== r))} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onSave(Object.fromEntries(entries))}
+            className="w-full mt-6 bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-xl shadow-lg shadow-blue-600/20 font-bold transition-all active:scale-[0.98]"
+          >
+            Save Dictionary
+          </button>
+        </div>
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PhoneticDictionaryPanel;
@@ -0,0 +1,187 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  getSuggestions,
+  isPhoneticEnabled,
+  isToggleShortcut,
+  learnWord,
+  setPhoneticEnabled,
+  subscribePhonetic,
+  toBengaliDigits
+} from '../services/phonetic';
+
+interface PhoneticTextareaProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef?: React.RefObject<HTMLTextAreaElement>;
+}
+
+// The word being typed: where it starts in the text, its Roman letters and the candidate shown
+interface Composition {
+  start: number;
+  roman: string;
+  candidates: string[];
+  index: number;
+}
+
+const WORD_KEY = /^[A-Za-z`^]$/;
+
+// Textarea with phonetic Bengali typing. While a word is being typed its best candidate is shown
+// in place; arrows pick another candidate, Escape keeps the Roman letters and any other key or
+// a click finishes the word. The toggle shortcut works whether phonetic typing is on or off.
+const PhoneticTextarea: React.FC<PhoneticTextareaProps> = ({ value, onChange, inputRef, onKeyDown, onBlur, onMouseDown, ...rest }) => {
+  const ownRef = useRef<HTMLTextAreaElement>(null);
+  const ref = inputRef ?? ownRef;
+  const [enabled, setEnabled] = useState(isPhoneticEnabled);
+  const [composition, setComposition] = useState<Composition | null>(null);
+  const caretRef = useRef<number | null>(null);
+
+  useEffect(() => subscribePhonetic(setEnabled), []);
+
+  useEffect(() => {
+    if (!enabled) setComposition(null);
+  }, [enabled]);
+
+  // Restores the caret after a replacement re-renders the controlled value
+  useLayoutEffect(() => {
+    if (caretRef.current === null || !ref.current) return;
+    ref.current.setSelectionRange(caretRef.current, caretRef.current);
+    caretRef.current = null;
+  }, [value]);
+
+  const replace = (start: number, end: number, text: string) => {
+    caretRef.current = start + text.length;
+    onChange(value.slice(0, start) + text + value.slice(end));
+  };
+
+  const compositionEnd = (c: Composition) => c.start + c.candidates[c.index].length;
+
+  // A candidate other than the first (and other than the Roman text) is remembered for next time
+  const commit = (c: Composition | null = composition) => {
+    if (!c) return;
+    const chosen = c.candidates[c.index];
+    if (c.index > 0 && chosen !== c.roman) learnWord(c.roman, chosen);
+    setComposition(null);
+  };
+
+  const choose = (index: number) => {
+    if (!composition) return;
+    replace(composition.start, compositionEnd(composition), composition.candidates[index]);
+    commit({ ...composition, index });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isToggleShortcut(e)) {
+      e.preventDefault();
+      commit();
+      setPhoneticEnabled(!enabled);
+      return;
+    }
+
+    if (enabled && !e.ctrlKey && !e.metaKey && !e.altKey && !e.nativeEvent.isComposing) {
+      const { selectionStart, selectionEnd } = e.currentTarget;
+
+      if (composition) {
+        const end = compositionEnd(composition);
+        if (e.key === 'Backspace') {
+          e.preventDefault();
+          const roman = composition.roman.slice(0, -1);
+          if (!roman) {
+            setComposition(null);
+            replace(composition.start, end, '');
+            return;
+          }
+          const candidates = getSuggestions(roman);
+          setComposition({ ...composition, roman, candidates, index: 0 });
+          replace(composition.start, end, candidates[0]);
+          return;
+        }
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const count = composition.candidates.length;
+          const index = (composition.index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count;
+          setComposition({ ...composition, index });
+          replace(composition.start, end, composition.candidates[index]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          setComposition(null);
+          replace(composition.start, end, composition.roman);
+          return;
+        }
+      }
+
+      if (WORD_KEY.test(e.key) && (composition || /[A-Za-z]/.test(e.key))) {
+        e.preventDefault();
+        const start = composition ? composition.start : selectionStart;
+        const end = composition ? compositionEnd(composition) : selectionEnd;
+        const roman = (composition?.roman ?? '') + e.key;
+        const candidates = getSuggestions(roman);
+        setComposition({ start, roman, candidates, index: 0 });
+        replace(start, end, candidates[0]);
+        return;
+      }
+
+      // Any other key finishes the word, then digits and the full stop are typed in Bengali
+      commit();
+      if (/^[0-9]$/.test(e.key)) {
+        e.preventDefault();
+        replace(selectionStart, selectionEnd, toBengaliDigits(e.key));
+        return;
+      }
+      if (e.key === '.') {
+        e.preventDefault();
+        // A second full stop turns the dari back into a period, as in Avro
+        if (selectionStart === selectionEnd && value[selectionStart - 1] === '।') replace(selectionStart - 1, selectionStart, '.');
+        else replace(selectionStart, selectionEnd, '।');
+        return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        {...rest}
+        ref={ref}
+        value={value}
+        onChange={(e) => {
+          setComposition(null);
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onMouseDown={(e) => {
+          commit();
+          onMouseDown?.(e);
+        }}
+        onBlur={(e) => {
+          commit();
+          onBlur?.(e);
+        }}
+      />
+      {composition && composition.candidates.length > 1 && (
+        <div className="absolute left-0 top-full mt-1 z-20 flex flex-wrap items-center gap-1 bg-white border border-slate-200 rounded-lg shadow-lg p-1.5 max-w-full">
+          <span className="text-[10px] font-mono text-slate-400 px-1">{composition.roman}</span>
+          {composition.candidates.map((candidate, index) => (
+            <button
+              key={index}
+              onMouseDown={(e) => {
+                e.preventDefault(); // keeps focus in the textarea
+                choose(index);
+              }}
+              className={`text-sm px-2 py-0.5 rounded-md ${
+                index === composition.index ? 'bg-blue-600 text-white' : 'text-slate-700 hover:bg-slate-100'
+              }`}
+            >
+              {candidate}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhoneticTextarea;
@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import { PHONETIC_SHORTCUT, isPhoneticEnabled, setPhoneticEnabled, subscribePhonetic } from '../services/phonetic';
+
+interface PhoneticToggleProps {
+  className?: string;
+}
+
+// Switches phonetic Bengali typing on or off for every phonetic field at once
+const PhoneticToggle: React.FC<PhoneticToggleProps> = ({ className }) => {
+  const [enabled, setEnabled] = useState(isPhoneticEnabled);
+
+  useEffect(() => subscribePhonetic(setEnabled), []);
+
+  return (
+    <button
+      type="button"
+      onMouseDown={(e) => e.preventDefault()} // keeps focus in the field being typed in
+      onClick={() => setPhoneticEnabled(!enabled)}
+      title={`Phonetic Bengali typing: ${enabled ? 'on' : 'off'} (${PHONETIC_SHORTCUT})`}
+      className={`text-[10px] font-bold px-1.5 py-0.5 rounded border transition-colors ${
+        enabled ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'
+      } ${className ?? ''}`}
+    >
+      {enabled ? 'অ বাংলা' : 'A English'}
+    </button>
+  );
+};
+
+export default PhoneticToggle;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { GeneratedContent, TextFieldKey } from '../types';
+import { PlatformDefinition } from '../services/platforms';
+import EditableText from './EditableText';
+import PendingBlock from './PendingBlock';
+
+interface PlatformCardProps {
+  platform: PlatformDefinition;
+  content: Partial<GeneratedContent>;
+  onCopy: (text: string) => void;
+  onEdit?: (field: TextFieldKey, value: string) => void; // omitted while editing is not possible
+  editedFields: string[];
+  regenerateAction?: React.ReactNode;
+  constraint?: (field: TextFieldKey) => React.ReactNode; // live length badge
+  counter?: (field: TextFieldKey) => ((draft: string) => React.ReactNode) | undefined;
+  footer?: React.ReactNode;
+}
+
+// Output card for any registry platform: its fields in order, each editable in place.
+// A card with one field shows the length badge in the header, otherwise next to each field.
+const PlatformCard: React.FC<PlatformCardProps> = ({ platform, content, onCopy, onEdit, editedFields, regenerateAction, constraint, counter, footer }) => {
+  const [copied, setCopied] = useState(false);
+  const { icon: Icon, card, fields } = platform;
+  const single = fields.length === 1;
+
+  const handleCopy = () => {
+    onCopy(fields.map(f => content[f.key]).filter(Boolean).join('\n\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className={`bg-white border ${card.borderColor} rounded-xl p-5 hover:shadow-md transition-all group relative h-full flex flex-col ${card.wide ? 'md:col-span-2' : ''}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className={`flex items-center gap-2 ${card.color} ${card.bgColor} px-2 py-1 rounded-lg`}>
+          <Icon size={16} />
+          <span className="font-bold text-xs">{platform.label}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          {single && constraint?.(fields[0].key)}
+          {regenerateAction}
+          <button onClick={handleCopy} disabled={fields.every(f => content[f.key] === undefined)} className="text-slate-400 hover:text-blue-600 transition-colors disabled:opacity-40">
+            {copied ? <Check size={16} className="text-green-500"/> : <Copy size={16} />}
+          </button>
+        </div>
+      </div>
+
+      <div className={`text-sm text-slate-600 leading-relaxed overflow-y-auto pr-1 custom-scrollbar flex-1 space-y-3 ${card.wide ? 'max-h-[420px]' : 'max-h-48'}`}>
+        {fields.map(field => {
+          const value = content[field.key];
+          return (
+            <div key={field.key}>
+              {!single && (
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{field.label}</span>
+                  {constraint?.(field.key)}
+                </div>
+              )}
+              {value === undefined
+                ? <PendingBlock lines={field.multiline ? 3 : 1} />
+                : <EditableText
+                    multiline={field.multiline}
+                    value={value}
+                    onSave={(text) => onEdit?.(field.key, text)}
+                    counter={counter?.(field.key)}
+                    disabled={!onEdit}
+                    edited={editedFields.includes(field.key)}
+                    className={field.multiline ? 'whitespace-pre-line' : 'font-bold text-slate-800'}
+                  />}
+            </div>
+          );
+        })}
+      </div>
+
+      {footer && <div className="border-t border-slate-100 mt-3 pt-3">{footer}</div>}
+    </div>
+  );
+};
+
+export default PlatformCard;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { PreprocessSettings } from '../types';
+import { DEFAULT_PREPROCESS_SETTINGS } from '../services/mediaPreprocess';
+
+interface PreprocessSettingsPanelProps {
+  settings: PreprocessSettings;
+  onSave: (settings: PreprocessSettings) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all disabled:opacity-50';
+const labelClass = 'block text-xs font-bold text-slate-700 uppercase mb-1.5';
+
+const IMAGE_SIZES = [1024, 1600, 2048, 3072];
+const FRAME_COUNTS = [0, 4, 8, 16, 32];
+const FRAME_SIZES = [512, 768, 1024];
+const SAMPLE_RATES = [8000, 16000, 24000];
+
+// How attachments are shrunk in the browser before they are sent
+const PreprocessSettingsPanel: React.FC<PreprocessSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PreprocessSettings>(settings);
+  const set = <K extends keyof PreprocessSettings>(key: K, value: PreprocessSettings[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+  const disabled = !draft.enabled;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md relative z-10 overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+              <SlidersHorizontal size={24} />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-slate-800">Media Preprocessing</h3>
+              <p className="text-xs text-slate-500">Shrink attachments in the browser before sending</p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input type="checkbox" checked={draft.enabled} onChange={(e) => set('enabled', e.target.checked)} className="accent-blue-600" />
+              Preprocess attachments
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Image Max Side</label>
+                <select value={draft.imageMaxDimension} disabled={disabled} onChange={(e) => set('imageMaxDimension', Number(e.target.value))} className={selectClass}>
+                  {IMAGE_SIZES.map(px => <option key={px} value={px}>{px} px</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>JPEG Quality ({Math.round(draft.imageQuality * 100)}%)</label>
+                <input
+                  type="range"
+                  min={50}
+                  max={95}
+                  step={5}
+                  value={Math.round(draft.imageQuality * 100)}
+                  disabled={disabled}
+                  onChange={(e) => set('imageQuality', Number(e.target.value) / 100)}
+                  className="w-full accent-blue-600 mt-2"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Video Key Frames</label>
+                <select value={draft.videoKeyFrames} disabled={disabled} onChange={(e) => set('videoKeyFrames', Number(e.target.value))} className={selectClass}>
+                  {FRAME_COUNTS.map(count => <option key={count} value={count}>{count === 0 ? 'Send whole video' : `${count} frames + audio`}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Frame Max Side</label>
+                <select value={draft.videoFrameMaxDimension} disabled={disabled || draft.videoKeyFrames === 0} onChange={(e) => set('videoFrameMaxDimension', Number(e.target.value))} className={selectClass}>
+                  {FRAME_SIZES.map(px => <option key={px} value={px}>{px} px</option>)}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Audio (mono WAV)</label>
+                <select value={draft.audioSampleRate} disabled={disabled} onChange={(e) => set('audioSampleRate', Number(e.target.value))} className={selectClass}>
+                  {SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz</option>)}
+                </select>
+              </div>
+            </div>
+
+            <p className="text-[11px] text-slate-400">
+              A processed file is only sent when it comes out smaller than the original. Videos over 200 MB are always sent whole.
+            </p>
+          </div>
+
+          <div className="flex gap-2 mt-6">
+            <button
+              onClick={() => setDraft(DEFAULT_PREPROCESS_SETTINGS)}
+              className="px-4 py-3 rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm font-semibold"
+            >
+              Defaults
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-xl shadow-lg shadow-blue-600/20 font-bold transition-all active:scale-[0.98]"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessSettingsPanel;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ProcessedMedia } from '../services/mediaPreprocess';
+import { formatFileSize } from '../services/media';
+
+interface ProcessedSizeBadgeProps {
+  size: number;
+  processed?: ProcessedMedia;
+  pending?: boolean; // preprocessing is on but has not finished for this file
+}
+
+// A file's size, and what preprocessing brought it down to
+const ProcessedSizeBadge: React.FC<ProcessedSizeBadgeProps> = ({ size, processed, pending }) => {
+  if (processed?.summary) {
+    return (
+      <span className="flex-shrink-0 text-slate-400" title={processed.summary}>
+        <span className="line-through">{formatFileSize(processed.originalBytes)}</span>
+        {' → '}
+        <span className="font-semibold text-green-600">{formatFileSize(processed.processedBytes)}</span>
+      </span>
+    );
+  }
+  return (
+    <span className="flex-shrink-0 text-slate-400" title={processed?.unchanged}>
+      {formatFileSize(size)}{pending && !processed ? ' · Optimizing…' : processed?.unchanged ? ' · Already smaller' : ''}
+    </span>
+  );
+};
+
+export default ProcessedSizeBadge;
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, Scissors } from 'lucide-react';
+import { computePeaks, decodeRecording, formatDuration, trimRecording } from '../services/recording';
+
+interface RecordingPreviewProps {
+  recording: { blob: Blob; url: string };
+  onChange: (recording: { blob: Blob; url: string }) => void;
+  disabled?: boolean;
+}
+
+const BAR_COUNT = 80;
+// Shortest clip the trim handles can leave, in seconds
+const MIN_SELECTION = 0.5;
+
+type Handle = 'start' | 'end';
+
+// Waveform of the finished clip with trim handles. Play previews the selected stretch;
+// Trim replaces the clip with it.
+const RecordingPreview: React.FC<RecordingPreviewProps> = ({ recording, onChange, disabled }) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [failed, setFailed] = useState(false);
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playhead, setPlayhead] = useState(0);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const waveRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBuffer(null);
+    setFailed(false);
+    decodeRecording(recording.blob)
+      .then(decoded => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setPeaks(computePeaks(decoded, BAR_COUNT));
+        setStart(0);
+        setEnd(decoded.duration);
+      })
+      .catch(error => {
+        console.error("Failed to decode recording", error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [recording.blob]);
+
+  // Without a decodable clip there is nothing to trim, but it can still be played
+  if (failed) return <audio src={recording.url} controls className="w-full h-8" />;
+
+  const duration = buffer?.duration ?? 0;
+  const percent = (seconds: number) => duration ? `${seconds / duration * 100}%` : '0%';
+  const isTrimmed = buffer !== null && (start > 0 || end < duration);
+
+  const moveHandle = (clientX: number) => {
+    if (!dragging || !waveRef.current || !duration) return;
+    const rect = waveRef.current.getBoundingClientRect();
+    const seconds = Math.min(duration, Math.max(0, (clientX - rect.left) / rect.width * duration));
+    if (dragging === 'start') setStart(Math.min(seconds, end - MIN_SELECTION));
+    else setEnd(Math.max(seconds, start + MIN_SELECTION));
+  };
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      return;
+    }
+    audio.currentTime = start;
+    audio.play();
+  };
+
+  // Stops at the end handle so the preview matches what Trim would keep
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.currentTime >= end) audio.pause();
+    setPlayhead(audio.currentTime);
+  };
+
+  const applyTrim = () => {
+    if (!buffer) return;
+    audioRef.current?.pause();
+    const blob = trimRecording(buffer, start, end);
+    onChange({ blob, url: URL.createObjectURL(blob) });
+  };
+
+  return (
+    <div className="space-y-1">
+      <audio
+        ref={audioRef}
+        src={recording.url}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        className="hidden"
+      />
+      <div
+        ref={waveRef}
+        onPointerMove={(e) => moveHandle(e.clientX)}
+        onPointerUp={() => setDragging(null)}
+        className="relative h-12 bg-slate-50 border border-slate-200 rounded-lg overflow-hidden select-none touch-none"
+      >
+        <div className="absolute inset-0 flex items-center gap-px px-px">
+          {(peaks.length ? peaks : Array(BAR_COUNT).fill(0.05)).map((peak, i) => {
+            const at = (i + 0.5) / BAR_COUNT * duration;
+            return (
+              <div
+                key={i}
+                className={`flex-1 rounded-sm ${buffer && at >= start && at <= end ? 'bg-green-500' : 'bg-slate-300'}`}
+                style={{ height: `${Math.max(6, peak * 100)}%` }}
+              />
+            );
+          })}
+        </div>
+        {buffer && (
+          <>
+            <div className="absolute inset-y-0 left-0 bg-slate-900/10" style={{ width: percent(start) }} />
+            <div className="absolute inset-y-0 right-0 bg-slate-900/10" style={{ left: percent(end) }} />
+            {isPlaying && <div className="absolute inset-y-0 w-px bg-blue-600" style={{ left: percent(playhead) }} />}
+            {(['start', 'end'] as Handle[]).map(handle => (
+              <div
+                key={handle}
+                onPointerDown={(e) => {
+                  if (disabled) return;
+                  e.preventDefault();
+                  e.currentTarget.setPointerCapture(e.pointerId); // keeps the drag going outside the waveform
+                  setDragging(handle);
+                }}
+                title={handle === 'start' ? 'Drag to trim the start' : 'Drag to trim the end'}
+                className="absolute inset-y-0 w-2 -ml-1 bg-green-600 rounded cursor-ew-resize"
+                style={{ left: percent(handle === 'start' ? start : end) }}
+              />
+            ))}
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-2 text-[11px] text-slate-500">
+        <button
+          onClick={togglePlay}
+          disabled={!buffer}
+          title="Play the selection"
+          className="p-1 rounded-md bg-white border border-slate-200 text-slate-600 hover:text-slate-900 disabled:opacity-40"
+        >
+          {isPlaying ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <span className="font-mono">
+          {formatDuration(start * 1000)} – {formatDuration(end * 1000)}
+        </span>
+        <span className="text-slate-400">({formatDuration((end - start) * 1000)} of {formatDuration(duration * 1000)})</span>
+        {isTrimmed && (
+          <div className="ml-auto flex gap-1">
+            <button
+              onClick={() => { setStart(0); setEnd(duration); }}
+              title="Reset selection"
+              className="p-1 rounded-md text-slate-400 hover:text-slate-600"
+            >
+              <RotateCcw size={12} />
+            </button>
+            <button
+              onClick={applyTrim}
+              disabled={disabled}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-green-600 text-white font-semibold hover:bg-green-700 disabled:opacity-40"
+            >
+              <Scissors size={12} /> Trim
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPreview;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { RefreshCw, Loader2, X } from 'lucide-react';
+
+interface RegenerateFieldButtonProps {
+  onRegenerate: (instruction: string) => void;
+  isBusy: boolean;
+  // Automatic retry progress while busy, e.g. { attempt: 2, max: 3 }
+  retryStatus?: { attempt: number; max: number } | null;
+  onCancel?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const QUICK_INSTRUCTIONS = ['Shorter', 'Longer', 'More emojis', 'More formal'];
+
+const RegenerateFieldButton: React.FC<RegenerateFieldButtonProps> = ({ onRegenerate, isBusy, retryStatus, onCancel, disabled, className }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  const submit = (text: string) => {
+    setIsOpen(false);
+    setInstruction('');
+    onRegenerate(text);
+  };
+
+  if (isBusy) {
+    return (
+      <div className="flex items-center gap-1 text-[10px] font-semibold text-slate-400">
+        <Loader2 size={14} className="animate-spin" />
+        {retryStatus && <span>Retrying ({retryStatus.attempt}/{retryStatus.max})…</span>}
+        {onCancel && (
+          <button onClick={onCancel} title="Cancel" className="hover:text-red-600 transition-colors">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        title="Regenerate this field"
+        className={className || 'text-slate-400 hover:text-blue-600 transition-colors disabled:opacity-40'}
+      >
+        <RefreshCw size={14} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-6 z-40 w-64 bg-white border border-slate-200 rounded-xl shadow-xl p-3 space-y-2 text-left">
+            <input
+              autoFocus
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') submit(instruction); }}
+              placeholder="Optional instruction..."
+              className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs text-slate-700 focus:ring-2 focus:ring-blue-500/20 outline-none"
+            />
+            <div className="flex flex-wrap gap-1">
+              {QUICK_INSTRUCTIONS.map((q) => (
+                <button
+                  key={q}
+                  onClick={() => submit(q)}
+                  className="text-[10px] font-semibold text-slate-600 bg-slate-100 hover:bg-blue-50 hover:text-blue-600 px-2 py-1 rounded"
+                >
+                  {q}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => submit(instruction)}
+              className="w-full flex items-center justify-center gap-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 py-2 rounded-lg"
+            >
+              <RefreshCw size={12} /> Regenerate
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RegenerateFieldButton;
@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, X, CircleArrowUp, Check } from 'lucide-react';
+import { HistoryItem } from '../types';
+import { currentRevisionId, describeRevision, getRevisions } from '../services/revisions';
+import { DIFF_FIELDS, DiffSegment, diffWords } from '../services/textDiff';
+
+interface RevisionPanelProps {
+  item: HistoryItem;
+  onPromote: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+// One side of the comparison: unchanged text plus either the removed or the added words
+const DiffSide = ({ segments, side }: { segments: DiffSegment[]; side: 'before' | 'after' }) => (
+  <div className="text-sm leading-relaxed whitespace-pre-wrap bg-white border border-slate-200 rounded-lg p-3 min-h-[3rem]">
+    {segments.map((segment, i) => {
+      if (segment.type === 'equal') return <span key={i}>{segment.text}</span>;
+      if (side === 'before' && segment.type === 'removed') {
+        return <del key={i} className="bg-red-100 text-red-800 no-underline rounded px-0.5">{segment.text}</del>;
+      }
+      if (side === 'after' && segment.type === 'added') {
+        return <ins key={i} className="bg-green-100 text-green-800 no-underline rounded px-0.5">{segment.text}</ins>;
+      }
+      return null;
+    })}
+  </div>
+);
+
+const RevisionPanel: React.FC<RevisionPanelProps> = ({ item, onPromote, onClose }) => {
+  const revisions = getRevisions(item);
+  const currentId = currentRevisionId(item);
+  const [beforeId, setBeforeId] = useState(revisions[Math.max(0, revisions.length - 2)].id);
+  const [afterId, setAfterId] = useState(currentId);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const before = revisions.find(r => r.id === beforeId) ?? revisions[0];
+  const after = revisions.find(r => r.id === afterId) ?? revisions[revisions.length - 1];
+
+  const fieldDiffs = useMemo(() => DIFF_FIELDS.map(field => {
+    const oldText = field.text(before.content);
+    const newText = field.text(after.content);
+    return { field, changed: oldText !== newText, segments: diffWords(oldText, newText) };
+  }), [before, after]);
+
+  const visibleDiffs = showUnchanged ? fieldDiffs : fieldDiffs.filter(d => d.changed);
+
+  const revisionOption = (id: string, index: number) => {
+    const revision = revisions[index];
+    return (
+      <option key={id} value={id}>
+        #{index + 1} · {describeRevision(revision)} · {new Date(revision.timestamp).toLocaleString()}
+      </option>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col relative z-10 overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+            <GitCompare size={24} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-xl font-bold text-slate-800">Revisions</h3>
+            <p className="text-xs text-slate-500 truncate">{item.preview}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid md:grid-cols-[16rem_1fr]">
+          {/* Revision list */}
+          <div className="border-r border-slate-100 overflow-y-auto p-3 space-y-2 bg-slate-50/50">
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className={`p-3 rounded-lg border text-xs ${revision.id === currentId ? 'border-blue-300 bg-blue-50' : 'border-slate-200 bg-white'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-bold text-slate-700">#{index + 1} {describeRevision(revision)}</span>
+                  {revision.id === currentId && <Check size={12} className="text-blue-600" />}
+                </div>
+                <div className="text-slate-500">{new Date(revision.timestamp).toLocaleString()}</div>
+                <div className="text-slate-500">
+                  {revision.tone}{revision.duration ? ` · ${revision.duration}` : ''}{revision.provider ? ` · ${revision.provider}` : ''}
+                </div>
+                {revision.instruction && <div className="mt-1 italic text-slate-600">"{revision.instruction}"</div>}
+                {revision.id !== currentId && (
+                  <button
+                    onClick={() => onPromote(revision.id)}
+                    className="mt-2 flex items-center gap-1 font-bold text-blue-600 hover:text-blue-700"
+                  >
+                    <CircleArrowUp size={12} /> Make current
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Comparison */}
+          <div className="overflow-y-auto p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <select value={before.id} onChange={(e) => setBeforeId(e.target.value)} className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-xs outline-none focus:border-blue-500">
+                {revisions.map((r, i) => revisionOption(r.id, i))}
+              </select>
+              <select value={after.id} onChange={(e) => setAfterId(e.target.value)} className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-xs outline-none focus:border-blue-500">
+                {revisions.map((r, i) => revisionOption(r.id, i))}
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              Show unchanged fields
+            </label>
+
+            {visibleDiffs.length === 0 && (
+              <div className="text-center text-sm text-slate-400 py-10">These revisions are identical.</div>
+            )}
+
+            {visibleDiffs.map(({ field, changed, segments }) => (
+              <div key={field.key}>
+                <div className="text-xs font-bold text-slate-500 uppercase mb-1.5 flex items-center gap-2">
+                  {field.label}
+                  {!changed && <span className="text-[10px] font-semibold text-slate-400 normal-case">unchanged</span>}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <DiffSide segments={segments} side="before" />
+                  <DiffSide segments={segments} side="after" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionPanel;
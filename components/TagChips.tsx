@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Check, Copy, Minus, Plus } from 'lucide-react';
+import { hasHashtag } from '../services/hashtags';
+
+interface TagChipsProps {
+  label: string;
+  tags: string[];
+  hashtags?: boolean; // shows '#' and copies space-separated; otherwise comma-separated
+  body?: string; // post the hashtags belong to; marks the ones already in it
+  onInsert?: (tags: string[]) => void;
+  onRemove?: (tags: string[]) => void;
+  onCopy: (text: string) => void;
+}
+
+// Toggleable tag chips. Copy, insert and remove act on the selected chips; all start selected.
+const TagChips: React.FC<TagChipsProps> = ({ label, tags, hashtags, body, onInsert, onRemove, onCopy }) => {
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [copied, setCopied] = useState(false);
+
+  const selected = tags.filter(tag => !deselected.has(tag));
+  const inBody = (tag: string) => !!hashtags && body !== undefined && hasHashtag(body, tag);
+
+  const toggle = (tag: string) => setDeselected(prev => {
+    const next = new Set(prev);
+    if (next.has(tag)) next.delete(tag);
+    else next.add(tag);
+    return next;
+  });
+
+  const copy = () => {
+    onCopy(hashtags ? selected.map(tag => `#${tag}`).join(' ') : selected.join(', '));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const actionClass = 'flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-blue-600 disabled:opacity-40 disabled:hover:text-slate-400';
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{label} · {selected.length}/{tags.length}</span>
+        <div className="flex items-center gap-3">
+          {onInsert && (
+            <button onClick={() => onInsert(selected)} disabled={selected.every(inBody)} title="Add the selected hashtags to the post" className={actionClass}>
+              <Plus size={11} /> Insert
+            </button>
+          )}
+          {onRemove && (
+            <button onClick={() => onRemove(selected)} disabled={!selected.some(inBody)} title="Remove the selected hashtags from the post" className={actionClass}>
+              <Minus size={11} /> Remove
+            </button>
+          )}
+          <button onClick={copy} disabled={selected.length === 0} title="Copy the selected set" className={actionClass}>
+            {copied ? <Check size={11} className="text-green-500" /> : <Copy size={11} />} Copy
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {tags.map(tag => {
+          const isSelected = !deselected.has(tag);
+          return (
+            <button
+              key={tag}
+              onClick={() => toggle(tag)}
+              title={inBody(tag) ? 'Already in the post' : undefined}
+              className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                isSelected ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-400 line-through'
+              }`}
+            >
+              {hashtags && '#'}{tag}{inBody(tag) && <Check size={10} className="inline ml-1 -mt-0.5" />}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TagChips;
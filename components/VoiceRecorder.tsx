@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Pause, Play, Square } from 'lucide-react';
+import { MAX_RECORDING_MS, formatDuration, pickRecordingMimeType } from '../services/recording';
+
+export type RecorderStatus = 'idle' | 'recording' | 'paused';
+
+interface VoiceRecorderProps {
+  hasRecording: boolean;
+  onRecorded: (recording: { blob: Blob; url: string }) => void;
+  // The live microphone stream is passed on so it can be visualized
+  onStatusChange?: (status: RecorderStatus, stream: MediaStream | null) => void;
+  maxDurationMs?: number;
+  disabled?: boolean;
+}
+
+// Records a voice note with pause/resume and stops by itself at `maxDurationMs`. The clip keeps
+// the container the browser actually recorded (webm, ogg or mp4).
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ hasRecording, onRecorded, onStatusChange, maxDurationMs = MAX_RECORDING_MS, disabled }) => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // Time recorded before the current stretch, and when the current stretch began
+  const elapsedBeforeRef = useRef(0);
+  const startedAtRef = useRef(0);
+
+  useEffect(() => {
+    onStatusChange?.(status, status === 'idle' ? null : streamRef.current);
+  }, [status]);
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    recorderRef.current = null;
+  };
+
+  // Ticks the timer while recording and stops at the maximum length
+  useEffect(() => {
+    if (status !== 'recording') return;
+    const timer = setInterval(() => {
+      const elapsed = elapsedBeforeRef.current + Date.now() - startedAtRef.current;
+      setElapsedMs(Math.min(elapsed, maxDurationMs));
+      if (elapsed >= maxDurationMs) stop();
+    }, 200);
+    return () => clearInterval(timer);
+  }, [status, maxDurationMs]);
+
+  // Releases the microphone if the recorder goes away mid-recording
+  useEffect(() => () => {
+    stop();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const start = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickRecordingMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        // What the recorder really wrote, e.g. "audio/webm;codecs=opus"
+        const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' });
+        onRecorded({ blob, url: URL.createObjectURL(blob) });
+        setStatus('idle');
+      };
+
+      recorder.start(1000);
+      recorderRef.current = recorder;
+      streamRef.current = stream;
+      elapsedBeforeRef.current = 0;
+      startedAtRef.current = Date.now();
+      setElapsedMs(0);
+      setStatus('recording');
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      alert("Microphone access denied or not available.");
+    }
+  };
+
+  const pause = () => {
+    recorderRef.current?.pause();
+    elapsedBeforeRef.current += Date.now() - startedAtRef.current;
+    setElapsedMs(elapsedBeforeRef.current);
+    setStatus('paused');
+  };
+
+  const resume = () => {
+    recorderRef.current?.resume();
+    startedAtRef.current = Date.now();
+    setStatus('recording');
+  };
+
+  if (status === 'idle') {
+    return (
+      <button
+        onClick={start}
+        disabled={disabled}
+        className={`flex flex-col items-center justify-center h-24 rounded-xl border-2 transition-all disabled:opacity-50 ${
+          hasRecording ? 'border-green-500 bg-green-50' : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+        }`}
+      >
+        <div className="p-2 rounded-full mb-1 bg-slate-100 text-slate-500">
+          <Mic size={20} />
+        </div>
+        <span className="text-xs font-semibold text-slate-500">
+          {hasRecording ? 'Record Again' : 'Record Voice'}
+        </span>
+        <span className="text-[10px] text-slate-400">Up to {formatDuration(maxDurationMs)}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col justify-center gap-2 h-24 rounded-xl border-2 px-3 ${status === 'recording' ? 'border-red-500 bg-red-50' : 'border-amber-400 bg-amber-50'}`}>
+      <div className="flex items-center gap-2">
+        <span className={`w-2.5 h-2.5 rounded-full ${status === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-amber-500'}`} />
+        <span className="font-mono text-sm font-bold text-slate-700">{formatDuration(elapsedMs)}</span>
+        <span className="text-[10px] text-slate-400">/ {formatDuration(maxDurationMs)}</span>
+        <div className="ml-auto flex gap-1">
+          <button
+            onClick={status === 'recording' ? pause : resume}
+            title={status === 'recording' ? 'Pause' : 'Resume'}
+            className="p-1.5 rounded-lg bg-white border border-slate-200 text-slate-600 hover:text-slate-900"
+          >
+            {status === 'recording' ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button onClick={stop} title="Stop" className="p-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700">
+            <Square size={14} fill="currentColor" />
+          </button>
+        </div>
+      </div>
+      <div className="h-1 bg-white rounded-full overflow-hidden">
+        <div className={`h-full ${status === 'recording' ? 'bg-red-500' : 'bg-amber-500'}`} style={{ width: `${elapsedMs / maxDurationMs * 100}%` }} />
+      </div>
+      <span className="text-[10px] font-semibold text-slate-500">{status === 'recording' ? 'Recording...' : 'Paused'}</span>
+    </div>
+  );
+};
+
+export default VoiceRecorder;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { AudioLines, X } from 'lucide-react';
+import { ProviderId, SpeechPace, Tone, VoiceSettings } from '../types';
+import { DEFAULT_VOICE_SETTINGS, PREBUILT_VOICES, STYLE_PRESETS } from '../services/voice';
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  providerId: ProviderId;
+  onSave: (settings: VoiceSettings) => void;
+  onClose: () => void;
+}
+
+const PACES: SpeechPace[] = ['slow', 'normal', 'fast'];
+
+const fieldClass = 'w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all';
+const labelClass = 'block text-xs font-bold text-slate-700 uppercase mb-1.5';
+
+const VoiceSelect = ({ value, onChange, allowDefault }: { value: string; onChange: (voice: string) => void; allowDefault?: boolean }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className={fieldClass}>
+    {allowDefault && <option value="">Default voice</option>}
+    {PREBUILT_VOICES.map(({ name, description }) => (
+      <option key={name} value={name}>{name} · {description}</option>
+    ))}
+  </select>
+);
+
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ settings, providerId, onSave, onClose }) => {
+  const [draft, setDraft] = useState<VoiceSettings>(settings);
+
+  const update = (patch: Partial<VoiceSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateSpeaker = (index: number, patch: Partial<VoiceSettings['speakers'][number]>) =>
+    update({ speakers: draft.speakers.map((s, i) => i === index ? { ...s, ...patch } : s) });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto relative z-10 animate-in zoom-in-95 duration-200">
+        <div className="p-6 space-y-5">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-100 p-2 rounded-lg text-blue-600">
+              <AudioLines size={24} />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-slate-800">Voice Settings</h3>
+              <p className="text-xs text-slate-500">Voices, pace and delivery for the audio summary and narration</p>
+            </div>
+          </div>
+
+          {providerId !== 'gemini' && (
+            <div className="text-sm text-amber-700 bg-amber-50 p-3 rounded-lg border border-amber-100">
+              Prebuilt voices and multi-speaker mode apply to Google Gemini only. Other providers use their own voice setting and the pace below.
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Default Voice</label>
+            <VoiceSelect value={draft.voiceName} onChange={(voiceName) => update({ voiceName })} />
+          </div>
+
+          <div>
+            <label className={labelClass}>Voice per Tone</label>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.values(Tone).map((t) => (
+                <div key={t}>
+                  <span className="text-[11px] font-semibold text-slate-500">{t}</span>
+                  <VoiceSelect
+                    allowDefault
+                    value={draft.toneVoices[t] ?? ''}
+                    onChange={(voice) => update({ toneVoices: { ...draft.toneVoices, [t]: voice || undefined } })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Pace</label>
+            <div className="flex gap-2">
+              {PACES.map((pace) => (
+                <button
+                  key={pace}
+                  onClick={() => update({ pace })}
+                  className={`flex-1 py-2 rounded-lg border text-sm font-semibold capitalize transition-colors ${
+                    draft.pace === pace ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {pace}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Style Hint</label>
+            <input
+              value={draft.style}
+              onChange={(e) => update({ style: e.target.value })}
+              placeholder="e.g. whisper, cheerful"
+              className={fieldClass}
+            />
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {STYLE_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => update({ style: draft.style === preset ? '' : preset })}
+                  className={`text-[11px] font-semibold px-2 py-1 rounded-full border transition-colors ${
+                    draft.style === preset ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input
+                type="checkbox"
+                checked={draft.multiSpeaker}
+                onChange={(e) => update({ multiSpeaker: e.target.checked })}
+              />
+              Multi-speaker mode
+            </label>
+            <p className="text-xs text-slate-500 mt-1">
+              Lines tagged with a speaker name (<code>Name: text</code>) are read in that speaker's voice. Exactly two speakers must appear in the text.
+            </p>
+            {draft.multiSpeaker && (
+              <div className="space-y-2 mt-3">
+                {draft.speakers.map((speaker, index) => (
+                  <div key={index} className="grid grid-cols-2 gap-2">
+                    <input
+                      value={speaker.speaker}
+                      onChange={(e) => updateSpeaker(index, { speaker: e.target.value })}
+                      placeholder={`Speaker ${index + 1}`}
+                      className={fieldClass}
+                    />
+                    <VoiceSelect value={speaker.voiceName} onChange={(voiceName) => updateSpeaker(index, { voiceName })} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={() => setDraft(DEFAULT_VOICE_SETTINGS)}
+              className="flex-1 py-2.5 rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm font-bold transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2.5 rounded-xl shadow-lg shadow-blue-600/20 text-sm font-bold transition-all active:scale-[0.98]"
+            >
+              Save Voices
+            </button>
+          </div>
+        </div>
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
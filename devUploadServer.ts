@@ -0,0 +1,119 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+// A stand-in for the Gemini Files API's resumable upload, served by the dev server so large
+// media uploads can be tried without a key or network. Set the upload endpoint in Settings to
+// the dev server's address (http://localhost:3000). Files live in memory until it restarts.
+
+interface StoredFile {
+  name: string;
+  displayName?: string;
+  mimeType: string;
+  expectedBytes: number;
+  chunks: Buffer[];
+  sizeBytes: number;
+  createTime: string;
+  expirationTime: string;
+}
+
+const FILE_LIFETIME_MS = 48 * 60 * 60 * 1000;
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const devUploadServer = (): Plugin => ({
+  name: 'srotolipi-dev-upload-server',
+  configureServer(server) {
+    const files = new Map<string, StoredFile>();
+
+    const describe = (file: StoredFile, origin: string) => ({
+      name: file.name,
+      displayName: file.displayName,
+      mimeType: file.mimeType,
+      sizeBytes: String(file.sizeBytes),
+      createTime: file.createTime,
+      expirationTime: file.expirationTime,
+      uri: `${origin}/v1beta/${file.name}`,
+      state: 'ACTIVE'
+    });
+
+    server.middlewares.use(async (req, res, next) => {
+      try {
+        const url = new URL(req.url || '/', `http://${req.headers.host}`);
+        const origin = `http://${req.headers.host}`;
+
+        // Start: reserve a file and hand back the URL its bytes go to
+        if (req.method === 'POST' && url.pathname === '/upload/v1beta/files' && !url.searchParams.has('upload_id')) {
+          const { file: metadata = {} } = JSON.parse((await readBody(req)).toString() || '{}');
+          const id = Math.random().toString(36).slice(2, 12);
+          const now = Date.now();
+          files.set(id, {
+            name: `files/${id}`,
+            displayName: metadata.displayName,
+            mimeType: String(req.headers['x-goog-upload-header-content-type'] || metadata.mimeType || 'application/octet-stream'),
+            expectedBytes: Number(req.headers['x-goog-upload-header-content-length'] || 0),
+            chunks: [],
+            sizeBytes: 0,
+            createTime: new Date(now).toISOString(),
+            expirationTime: new Date(now + FILE_LIFETIME_MS).toISOString()
+          });
+          return sendJson(res, 200, {}, { 'X-Goog-Upload-URL': `${origin}/upload/v1beta/files?upload_id=${id}`, 'X-Goog-Upload-Status': 'active' });
+        }
+
+        // Chunks arrive in order with their offset; the last one also finalizes the file
+        if (req.method === 'POST' && url.pathname === '/upload/v1beta/files') {
+          const file = files.get(url.searchParams.get('upload_id') || '');
+          if (!file) return sendJson(res, 404, { error: { code: 404, message: 'Unknown upload.', status: 'NOT_FOUND' } });
+
+          const chunk = await readBody(req);
+          if (Number(req.headers['x-goog-upload-offset']) !== file.sizeBytes) {
+            return sendJson(res, 400, { error: { code: 400, message: 'Upload offset does not match.', status: 'INVALID_ARGUMENT' } });
+          }
+          file.chunks.push(chunk);
+          file.sizeBytes += chunk.length;
+
+          if (!String(req.headers['x-goog-upload-command'] || '').includes('finalize')) {
+            return sendJson(res, 200, {}, { 'X-Goog-Upload-Status': 'active' });
+          }
+          if (file.expectedBytes && file.sizeBytes !== file.expectedBytes) {
+            return sendJson(res, 400, { error: { code: 400, message: 'Upload size does not match.', status: 'INVALID_ARGUMENT' } });
+          }
+          return sendJson(res, 200, { file: describe(file, origin) }, { 'X-Goog-Upload-Status': 'final' });
+        }
+
+        const match = url.pathname.match(/^\/v1beta\/files\/([\w-]+)$/);
+        if (match) {
+          const file = files.get(match[1]);
+          if (!file) return sendJson(res, 404, { error: { code: 404, message: 'File not found.', status: 'NOT_FOUND' } });
+          if (req.method === 'DELETE') {
+            files.delete(match[1]);
+            return sendJson(res, 200, {});
+          }
+          if (req.method === 'GET' && url.searchParams.get('alt') === 'media') {
+            res.writeHead(200, { 'Content-Type': file.mimeType });
+            return res.end(Buffer.concat(file.chunks));
+          }
+          if (req.method === 'GET') return sendJson(res, 200, describe(file, origin));
+        }
+
+        next();
+      } catch (error) {
+        // A rejected handler would be an unhandled rejection and bring down the dev server
+        if (res.headersSent) return res.end();
+        if (error instanceof SyntaxError) {
+          return sendJson(res, 400, { error: { code: 400, message: `Invalid JSON: ${error.message}`, status: 'INVALID_ARGUMENT' } });
+        }
+        sendJson(res, 500, { error: { code: 500, message: error instanceof Error ? error.message : String(error), status: 'INTERNAL' } });
+      }
+    });
+  }
+});
@@ -0,0 +1,147 @@
+import { MediaPart } from "../types";
+
+// Turns TTS output into files browsers can play and download. Gemini TTS returns headerless
+// PCM described only by its mime type (e.g. "audio/L16;codec=pcm;rate=24000").
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+const DEFAULT_PCM_FORMAT: PcmFormat = { sampleRate: 24000, channels: 1, bitsPerSample: 16 };
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Returns the PCM layout for raw audio mime types (audio/L16, audio/pcm), or null for containers
+export const parsePcmMimeType = (mimeType: string): PcmFormat | null => {
+  const [type, ...params] = mimeType.toLowerCase().split(';').map(p => p.trim());
+  const isPcm = type === 'audio/pcm' || /^audio\/l\d+$/.test(type) || params.includes('codec=pcm');
+  if (!isPcm) return null;
+
+  const format = { ...DEFAULT_PCM_FORMAT };
+  const bits = type.match(/^audio\/l(\d+)$/);
+  if (bits) format.bitsPerSample = Number(bits[1]);
+
+  for (const param of params) {
+    const [key, value] = param.split('=');
+    if (key === 'rate') format.sampleRate = Number(value) || format.sampleRate;
+    if (key === 'channels') format.channels = Number(value) || format.channels;
+  }
+  return format;
+};
+
+// Wraps little-endian PCM samples in a RIFF/WAVE header
+export const encodeWav = (pcm: Uint8Array, format: PcmFormat): Uint8Array => {
+  const { sampleRate, channels, bitsPerSample } = format;
+  const blockAlign = channels * (bitsPerSample / 8);
+  const buffer = new ArrayBuffer(44 + pcm.length);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, pcm.length, true);
+
+  const bytes = new Uint8Array(buffer);
+  bytes.set(pcm, 44);
+  return bytes;
+};
+
+// Mixes float samples down to mono 16-bit little-endian PCM, ready for encodeWav
+export const floatToPcm16 = (channels: Float32Array[], length: number): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(length * 2));
+  for (let i = 0; i < length; i++) {
+    let sample = 0;
+    for (const channel of channels) sample += channel[i] ?? 0;
+    sample = Math.max(-1, Math.min(1, sample / Math.max(channels.length, 1)));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Uint8Array(view.buffer);
+};
+
+// RFC 2586 defines audio/L16 as big-endian, but Gemini sends little-endian samples,
+// which is what WAV expects, so they are copied into the container unchanged.
+export const speechToWavBytes = (speech: MediaPart): { bytes: Uint8Array; mimeType: string; extension: string } => {
+  const raw = base64ToBytes(speech.data);
+  const pcmFormat = parsePcmMimeType(speech.mimeType);
+
+  if (pcmFormat) {
+    return { bytes: encodeWav(raw, pcmFormat), mimeType: 'audio/wav', extension: 'wav' };
+  }
+
+  // Already a container format (wav, mp3, ogg...); keep it as is
+  const subtype = speech.mimeType.split('/')[1]?.split(';')[0] || 'bin';
+  const extension = subtype === 'mpeg' ? 'mp3' : subtype === 'x-wav' || subtype === 'wave' ? 'wav' : subtype;
+  return { bytes: raw, mimeType: speech.mimeType.split(';')[0], extension };
+};
+
+export const speechToBlob = (speech: MediaPart): { blob: Blob; extension: string } => {
+  const { bytes, mimeType, extension } = speechToWavBytes(speech);
+  return { blob: new Blob([bytes as BlobPart], { type: mimeType }), extension };
+};
+
+// Optional compressed export: re-records the decoded audio through MediaRecorder.
+// Runs in real time, so it takes as long as the clip. Returns null if the browser has no Opus encoder.
+export const encodeOpus = async (audioBuffer: AudioBuffer): Promise<{ blob: Blob; extension: string } | null> => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const mimeType = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'].find(t => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) return null;
+
+  const ctx = new AudioContext({ sampleRate: audioBuffer.sampleRate });
+  const destination = ctx.createMediaStreamDestination();
+  const source = ctx.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(destination);
+
+  const recorder = new MediaRecorder(destination.stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => {
+      ctx.close();
+      resolve({
+        blob: new Blob(chunks, { type: mimeType.split(';')[0] }),
+        extension: mimeType.startsWith('audio/ogg') ? 'ogg' : 'webm'
+      });
+    };
+    recorder.onerror = () => {
+      ctx.close();
+      reject(new Error('Audio encoding failed.'));
+    };
+    source.onended = () => recorder.stop();
+    recorder.start();
+    source.start();
+  });
+};
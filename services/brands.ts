@@ -0,0 +1,123 @@
+import { BrandProfile, PreferredSpelling, Tone } from "../types";
+
+// Brand voice profiles: local storage, the prompt block they add to a generation, and the
+// JSON file format used to share them between team members.
+
+const BRANDS_STORAGE_KEY = 'srotolipi_brands';
+const SELECTED_BRAND_STORAGE_KEY = 'srotolipi_brand';
+const EXPORT_KIND = 'srotolipi-brand-profiles';
+
+// Caps the few-shot examples so a long sample does not crowd out the actual request
+const MAX_SAMPLE_POSTS = 3;
+const MAX_SAMPLE_LENGTH = 1200;
+
+export const createBrandProfile = (patch: Partial<BrandProfile> = {}): BrandProfile => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  description: '',
+  dos: [],
+  donts: [],
+  bannedWords: [],
+  spellings: [],
+  defaultCta: '',
+  samplePosts: [],
+  defaultTone: Tone.PROFESSIONAL,
+  updatedAt: Date.now(),
+  ...patch
+});
+
+export const loadBrandProfiles = (): BrandProfile[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BRANDS_STORAGE_KEY) ?? 'null');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveBrandProfiles = (profiles: BrandProfile[]) => {
+  localStorage.setItem(BRANDS_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const loadSelectedBrandId = (): string | null => localStorage.getItem(SELECTED_BRAND_STORAGE_KEY);
+
+export const saveSelectedBrandId = (id: string | null) => {
+  if (id) localStorage.setItem(SELECTED_BRAND_STORAGE_KEY, id);
+  else localStorage.removeItem(SELECTED_BRAND_STORAGE_KEY);
+};
+
+// Spellings are edited one per line as "avoid -> preferred"
+export const parseSpellingLines = (text: string): PreferredSpelling[] =>
+  text.split('\n')
+    .map(line => line.split(/\s*(?:->|→)\s*/))
+    .filter(parts => parts.length === 2 && parts[0].trim() && parts[1].trim())
+    .map(([avoid, preferred]) => ({ avoid: avoid.trim(), preferred: preferred.trim() }));
+
+export const formatSpellingLines = (spellings: PreferredSpelling[]): string =>
+  spellings.map(({ avoid, preferred }) => `${avoid} -> ${preferred}`).join('\n');
+
+// Prompt block appended to the generation request
+export const buildBrandPrompt = (brand: BrandProfile): string => {
+  const lines = [`\nBrand voice: write as "${brand.name}".`];
+  if (brand.description.trim()) lines.push(`About the brand: ${brand.description.trim()}`);
+  if (brand.dos.length) lines.push(`Always:\n${brand.dos.map(item => `- ${item}`).join('\n')}`);
+  if (brand.donts.length) lines.push(`Never:\n${brand.donts.map(item => `- ${item}`).join('\n')}`);
+  if (brand.bannedWords.length) lines.push(`Do not use these words anywhere: ${brand.bannedWords.join(', ')}`);
+  if (brand.spellings.length) {
+    lines.push(`Use these spellings:\n${brand.spellings.map(s => `- "${s.preferred}" (not "${s.avoid}")`).join('\n')}`);
+  }
+  if (brand.defaultCta.trim()) lines.push(`Default call to action, unless the topic needs another: ${brand.defaultCta.trim()}`);
+
+  const samples = brand.samplePosts.filter(post => post.trim()).slice(0, MAX_SAMPLE_POSTS);
+  if (samples.length) {
+    lines.push('Example posts in the brand voice. Match their style, not their content:');
+    samples.forEach((post, i) => lines.push(`<example ${i + 1}>\n${post.trim().slice(0, MAX_SAMPLE_LENGTH)}\n</example ${i + 1}>`));
+  }
+  return lines.join('\n');
+};
+
+export const exportBrandProfiles = (profiles: BrandProfile[]): string =>
+  JSON.stringify({ kind: EXPORT_KIND, version: 1, exportedAt: new Date().toISOString(), profiles }, null, 2);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+const toProfile = (value: any): BrandProfile | null => {
+  if (!value || typeof value !== 'object' || typeof value.name !== 'string' || !value.name.trim()) return null;
+  return createBrandProfile({
+    ...(typeof value.id === 'string' && value.id ? { id: value.id } : {}),
+    name: value.name.trim(),
+    description: typeof value.description === 'string' ? value.description : '',
+    dos: stringList(value.dos),
+    donts: stringList(value.donts),
+    bannedWords: stringList(value.bannedWords),
+    spellings: Array.isArray(value.spellings)
+      ? value.spellings.filter((s: any) => typeof s?.preferred === 'string' && typeof s?.avoid === 'string')
+      : [],
+    defaultCta: typeof value.defaultCta === 'string' ? value.defaultCta : '',
+    samplePosts: stringList(value.samplePosts),
+    defaultTone: Object.values(Tone).includes(value.defaultTone) ? value.defaultTone : Tone.PROFESSIONAL
+  });
+};
+
+// Accepts an export file, a bare array or a single profile. Throws with a readable message
+// when nothing in the file is a usable profile.
+export const parseBrandProfiles = (text: string): BrandProfile[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const items = Array.isArray(data) ? data : Array.isArray(data?.profiles) ? data.profiles : [data];
+  const profiles = items.map(toProfile).filter((p: BrandProfile | null): p is BrandProfile => p !== null);
+  if (profiles.length === 0) throw new Error('No brand profiles found in the file.');
+  return profiles;
+};
+
+// Imported profiles replace existing ones with the same id, so re-importing a shared file updates it
+export const mergeBrandProfiles = (existing: BrandProfile[], imported: BrandProfile[]): BrandProfile[] => {
+  const importedIds = new Set(imported.map(p => p.id));
+  return [...existing.filter(p => !importedIds.has(p.id)), ...imported];
+};
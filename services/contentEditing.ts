@@ -0,0 +1,36 @@
+import { GeneratedContent, TagListField, VideoScriptScene } from "../types";
+
+// Pure updates for manual edits in the output deck. Scene numbers always follow the
+// scene order, so they are renumbered after every structural change.
+
+export type EditableTextField = Exclude<keyof GeneratedContent, 'videoScript' | 'hashtags' | TagListField>;
+
+const renumber = (scenes: VideoScriptScene[]): VideoScriptScene[] =>
+  scenes.map((scene, index) => ({ ...scene, sceneNumber: index + 1 }));
+
+export const updateTextField = (content: GeneratedContent, field: EditableTextField, value: string): GeneratedContent =>
+  ({ ...content, [field]: value });
+
+export const updateScene = (content: GeneratedContent, index: number, patch: Partial<Omit<VideoScriptScene, 'sceneNumber'>>): GeneratedContent => ({
+  ...content,
+  videoScript: content.videoScript.map((scene, i) => i === index ? { ...scene, ...patch } : scene)
+});
+
+export const insertScene = (content: GeneratedContent, index: number): GeneratedContent => {
+  const scenes = [...content.videoScript];
+  scenes.splice(index, 0, { sceneNumber: 0, visualDescription: '', voiceoverText: '', duration: '' });
+  return { ...content, videoScript: renumber(scenes) };
+};
+
+export const removeScene = (content: GeneratedContent, index: number): GeneratedContent => ({
+  ...content,
+  videoScript: renumber(content.videoScript.filter((_, i) => i !== index))
+});
+
+export const moveScene = (content: GeneratedContent, index: number, offset: number): GeneratedContent => {
+  const target = index + offset;
+  if (target < 0 || target >= content.videoScript.length) return content;
+  const scenes = [...content.videoScript];
+  [scenes[index], scenes[target]] = [scenes[target], scenes[index]];
+  return { ...content, videoScript: renumber(scenes) };
+};
@@ -0,0 +1,210 @@
+import { ContentField, FieldRepair, GeneratedContent, GenerationResult, PlatformId, TagListField, VideoScriptScene } from "../types";
+import { parsePartialJson } from "./partialJson";
+import { GenerationError } from "./errors";
+import { HASHTAG_PLATFORMS, normalizeTagList } from "./hashtags";
+import { DEFAULT_PLATFORMS, PLATFORM_FIELDS, requiredFields } from "./platforms";
+
+// Runtime checks for model output. Models occasionally drop a field, return a scene number
+// as "2" or stop mid-string, and the output deck must never render such a payload.
+
+const TEXT_FIELDS: ContentField[] = [...PLATFORM_FIELDS.map(f => f.key), 'summary'];
+
+export interface ValidationReport {
+  content: Partial<GeneratedContent>;
+  invalidFields: ContentField[];
+  coercedFields: ContentField[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Returns the scene with recoverable problems fixed (`coerced`), or null if it is unusable
+export const validateScene = (value: unknown, index: number): { scene: VideoScriptScene | null; coerced: boolean } => {
+  if (!isRecord(value)) return { scene: null, coerced: false };
+  if (typeof value.visualDescription !== 'string' || typeof value.voiceoverText !== 'string') {
+    return { scene: null, coerced: false };
+  }
+
+  let coerced = false;
+
+  let sceneNumber = value.sceneNumber;
+  if (typeof sceneNumber === 'string' && sceneNumber.trim() !== '' && !isNaN(Number(sceneNumber))) {
+    sceneNumber = Number(sceneNumber);
+  }
+  if (typeof sceneNumber !== 'number' || !Number.isInteger(sceneNumber) || sceneNumber < 1) {
+    sceneNumber = typeof sceneNumber === 'number' && sceneNumber >= 1 ? Math.round(sceneNumber) : index + 1;
+    coerced = true;
+  } else if (value.sceneNumber !== sceneNumber) {
+    coerced = true;
+  }
+
+  let duration = value.duration;
+  if (typeof duration === 'number') {
+    duration = `${duration} seconds`;
+    coerced = true;
+  } else if (typeof duration !== 'string') {
+    duration = '';
+    coerced = true;
+  }
+
+  return {
+    scene: {
+      sceneNumber: sceneNumber as number,
+      visualDescription: value.visualDescription,
+      voiceoverText: value.voiceoverText,
+      duration: duration as string
+    },
+    coerced
+  };
+};
+
+// SEO metadata is optional: it is normalized when present, but never worth a retry.
+// A list that had to be reshaped (a string instead of an array, '#' prefixes) counts as coerced.
+const validateSeoMetadata = (source: Record<string, unknown>, content: Partial<GeneratedContent>, coercedFields: ContentField[]) => {
+  const sameList = (raw: unknown, tags: string[]) =>
+    Array.isArray(raw) && raw.length === tags.length && raw.every((item, i) => item === tags[i]);
+
+  if (isRecord(source.hashtags)) {
+    const hashtags: Partial<Record<PlatformId, string[]>> = {};
+    let coerced = false;
+    for (const { platform } of HASHTAG_PLATFORMS) {
+      const raw = source.hashtags[platform];
+      const tags = normalizeTagList(raw, true);
+      if (tags) hashtags[platform] = tags;
+      if (raw !== undefined && !sameList(raw, tags ?? [])) coerced = true;
+    }
+    content.hashtags = hashtags;
+    if (coerced) coercedFields.push('hashtags');
+  }
+
+  for (const field of ['youtubeTags', 'keywords'] as TagListField[]) {
+    const raw = source[field];
+    if (raw === undefined) continue;
+    const tags = normalizeTagList(raw, false);
+    if (tags) content[field] = tags;
+    if (!sameList(raw, tags ?? [])) coercedFields.push(field);
+  }
+
+  if (typeof source.thumbnailText === 'string' && source.thumbnailText.trim()) {
+    content.thumbnailText = source.thumbnailText.trim();
+  }
+};
+
+// Only the fields of the chosen platforms are required; fields of other platforms are kept
+// when they are usable and dropped otherwise.
+export const validateGeneratedContent = (value: unknown, platforms: PlatformId[] = DEFAULT_PLATFORMS): ValidationReport => {
+  const content: Partial<GeneratedContent> = {};
+  const invalidFields: ContentField[] = [];
+  const coercedFields: ContentField[] = [];
+  const source = isRecord(value) ? value : {};
+  const required = requiredFields(platforms);
+
+  for (const field of TEXT_FIELDS) {
+    const raw = source[field];
+    if (typeof raw === 'string' && raw.trim()) {
+      (content as any)[field] = raw;
+    } else if (typeof raw === 'number') {
+      (content as any)[field] = String(raw);
+      coercedFields.push(field);
+    } else if (required.includes(field)) {
+      invalidFields.push(field);
+    }
+  }
+
+  if (!required.includes('videoScript')) {
+    const scenes = Array.isArray(source.videoScript) ? source.videoScript.map(validateScene).map(r => r.scene) : [];
+    content.videoScript = scenes.filter((scene): scene is VideoScriptScene => scene !== null);
+  } else if (Array.isArray(source.videoScript)) {
+    let coerced = false;
+    const scenes: VideoScriptScene[] = [];
+    source.videoScript.forEach((item, idx) => {
+      const { scene, coerced: sceneCoerced } = validateScene(item, idx);
+      if (scene) scenes.push(scene);
+      else coerced = true; // unusable scenes are dropped
+      if (sceneCoerced) coerced = true;
+    });
+
+    if (scenes.length > 0) {
+      content.videoScript = scenes;
+      if (coerced) coercedFields.push('videoScript');
+    } else {
+      invalidFields.push('videoScript');
+    }
+  } else {
+    invalidFields.push('videoScript');
+  }
+
+  validateSeoMetadata(source, content, coercedFields);
+
+  return { content, invalidFields, coercedFields };
+};
+
+// Best-effort recovery of truncated or fenced JSON. Strips ```json fences and surrounding
+// prose, then keeps every value that was fully written before the text was cut off.
+export const repairJsonText = (text: string): unknown => {
+  let cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+
+  const start = cleaned.indexOf('{');
+  if (start === -1) return undefined;
+  cleaned = cleaned.slice(start);
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Trailing prose after a complete object
+    const end = cleaned.lastIndexOf('}');
+    if (end !== -1) {
+      try {
+        return JSON.parse(cleaned.slice(0, end + 1));
+      } catch {
+        // Fall through to the partial parser
+      }
+    }
+  }
+
+  try {
+    return parsePartialJson(cleaned);
+  } catch {
+    return undefined;
+  }
+};
+
+// Parses and validates a full generation. If fields are still missing or invalid after the
+// JSON repair pass, `retryFields` is asked for only those fields before giving up.
+export const finalizeGeneratedContent = async (
+  jsonText: string,
+  retryFields: (partial: Partial<GeneratedContent>, fields: ContentField[]) => Promise<string>,
+  platforms: PlatformId[] = DEFAULT_PLATFORMS
+): Promise<GenerationResult> => {
+  let parsed: unknown;
+  let jsonRepaired = false;
+
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch {
+    parsed = repairJsonText(jsonText);
+    jsonRepaired = true;
+  }
+
+  if (!isRecord(parsed)) {
+    throw new GenerationError('MalformedResponse', "The model returned malformed JSON that could not be repaired.");
+  }
+
+  let report = validateGeneratedContent(parsed, platforms);
+  const repairs: FieldRepair[] = report.coercedFields.map(field => ({ field, method: 'coerced' }));
+
+  if (report.invalidFields.length > 0) {
+    const retried = report.invalidFields;
+    const patchText = await retryFields(report.content, retried);
+    const patch = repairJsonText(patchText);
+
+    report = validateGeneratedContent({ ...report.content, ...(isRecord(patch) ? patch : {}) }, platforms);
+    if (report.invalidFields.length > 0) {
+      throw new GenerationError('MalformedResponse', `The model response is missing required fields: ${report.invalidFields.join(', ')}.`);
+    }
+
+    retried.forEach(field => repairs.push({ field, method: 'retried' }));
+  }
+
+  return { content: report.content as GeneratedContent, jsonRepaired, repairs };
+};
@@ -0,0 +1,64 @@
+// Parses the free-text `duration` of a script scene into seconds. The model writes it in
+// English or Bengali, with either digit set: "0:15", "15 seconds", "1 min 30 sec",
+// "০:১৫", "১৫ সেকেন্ড", "১ মিনিট ৩০ সেকেন্ড", or a range such as "0:10 - 0:25".
+
+const BENGALI_DIGITS = '০১২৩৪৫৬৭৮৯';
+
+const UNIT_SECONDS: [RegExp, number][] = [
+  [/^(h|hr|hrs|hour|hours|ঘণ্টা|ঘন্টা)$/, 3600],
+  [/^(m|min|mins|minute|minutes|মিনিট|মি)$/, 60],
+  [/^(s|sec|secs|second|seconds|সেকেন্ড|সেকেণ্ড|সেঃ|সে)$/, 1]
+];
+
+// Speaking rate used when a scene has no usable duration
+const WORDS_PER_SECOND = 2.5;
+const MIN_SPEECH_SECONDS = 2;
+
+export const normalizeDigits = (text: string): string =>
+  text.replace(/[০-৯]/g, digit => String(BENGALI_DIGITS.indexOf(digit)));
+
+const clockToSeconds = (clock: string): number => {
+  const parts = clock.split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const parseDurationSeconds = (text: string): number | null => {
+  const value = normalizeDigits(text).trim().toLowerCase();
+  if (!value) return null;
+
+  // Clock formats: m:ss or h:mm:ss; a pair of them is a start-end range
+  const clocks = value.match(/\d+:\d{1,2}(?::\d{1,2})?/g);
+  if (clocks) {
+    if (clocks.length >= 2) {
+      const span = clockToSeconds(clocks[1]) - clockToSeconds(clocks[0]);
+      if (span > 0) return span;
+    }
+    return clockToSeconds(clocks[0]);
+  }
+
+  // Number + unit pairs, summed: "1 min 30 sec", "1.5 minutes", "15s", "১৫ সেকেন্ড"
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)\s*([a-zঀ-৿]+)/g)) {
+    const seconds = UNIT_SECONDS.find(([pattern]) => pattern.test(unit))?.[1];
+    if (seconds === undefined) continue;
+    total += Number(amount) * seconds;
+    matched = true;
+  }
+  if (matched) return total;
+
+  // A bare number is taken as seconds
+  const bare = value.match(/^(\d+(?:\.\d+)?)$/);
+  return bare ? Number(bare[1]) : null;
+};
+
+export const estimateSpeechSeconds = (text: string): number => {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(MIN_SPEECH_SECONDS, words / WORDS_PER_SECOND);
+};
+
+// Scripted duration, or an estimate from the voiceover when the model left it unreadable
+export const sceneDurationSeconds = (scene: { duration: string; voiceoverText: string }): number => {
+  const parsed = parseDurationSeconds(scene.duration);
+  return parsed && parsed > 0 ? parsed : estimateSpeechSeconds(scene.voiceoverText);
+};
@@ -0,0 +1,84 @@
+// Typed failures for every generation backend, so the UI can offer a specific next step
+// instead of a generic "Failed to generate content" alert.
+
+export type GenerationErrorKind =
+  | 'InvalidKey'
+  | 'QuotaExceeded'
+  | 'SafetyBlocked'
+  | 'PayloadTooLarge'
+  | 'UnsupportedMedia'
+  | 'Network'
+  | 'MalformedResponse'
+  | 'Cancelled'
+  | 'Unknown';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  // Server-suggested wait before retrying (from a RetryInfo / Retry-After hint), if any
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+export const isGenerationError = (error: unknown): error is GenerationError => error instanceof GenerationError;
+
+// Finish/block reasons that mean the model refused for safety or policy reasons
+const SAFETY_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Throws SafetyBlocked if a Gemini response (or stream chunk) was blocked
+export const assertNotBlocked = (response: any) => {
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('SafetyBlocked', `The request was blocked (${blockReason}). ${response.promptFeedback.blockReasonMessage || ''}`.trim());
+  }
+
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) {
+    throw new GenerationError('SafetyBlocked', `The response was stopped by the safety filter (${finishReason}).`);
+  }
+};
+
+// "Please retry in 31.2s." or a RetryInfo retryDelay of "31s"
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry in ([\d.]+)\s*s/i) || message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const kindFromStatus = (status: number, message = ''): GenerationErrorKind => {
+  if (status === 401 || status === 403) return 'InvalidKey';
+  if (status === 400 && /api[ _]?key/i.test(message)) return 'InvalidKey';
+  if (status === 413) return 'PayloadTooLarge';
+  if (status === 400 && /payload|too large|exceeds the maximum|size limit/i.test(message)) return 'PayloadTooLarge';
+  if (status === 429) return 'QuotaExceeded';
+  if (status === 408 || status >= 500) return 'Network';
+  return 'Unknown';
+};
+
+// Maps anything a backend can throw (SDK ApiError, fetch TypeError, SyntaxError, ...) to a GenerationError
+export const classifyError = (error: unknown): GenerationError => {
+  if (isGenerationError(error)) return error;
+  if ((error as any)?.name === 'AbortError') return new GenerationError('Cancelled', 'The request was cancelled.', { cause: error });
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+
+  let kind: GenerationErrorKind = status !== undefined ? kindFromStatus(status, message) : 'Unknown';
+
+  if (kind === 'Unknown') {
+    if (/API key not valid|API_KEY_INVALID|API Key is missing|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) kind = 'InvalidKey';
+    else if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) kind = 'QuotaExceeded';
+    else if (/SAFETY|blocked/i.test(message)) kind = 'SafetyBlocked';
+    else if (/payload size|request entity too large|too large/i.test(message)) kind = 'PayloadTooLarge';
+    else if (error instanceof SyntaxError || /JSON/i.test(message)) kind = 'MalformedResponse';
+    else if (error instanceof TypeError || /Failed to fetch|NetworkError|network|ECONN|ETIMEDOUT|UNAVAILABLE/i.test(message)) kind = 'Network';
+  }
+
+  return new GenerationError(kind, message, { retryAfterMs: parseRetryAfter(message), cause: error });
+};
@@ -0,0 +1,190 @@
+import { GeneratedContent, HistoryItem } from "../types";
+import { buildSubtitles } from "./subtitles";
+import { HASHTAG_PLATFORMS, formatHashtags } from "./hashtags";
+import { getPlatform, platformsInContent } from "./platforms";
+import { createZip, ZipEntry } from "./zip";
+
+// Turns a generation into files editors can hand to clients: structured JSON, a Markdown
+// brief, a printable HTML page and a ZIP bundling them with audio and subtitles.
+
+export type ExportMetadata = Pick<HistoryItem, 'tone' | 'timestamp' | 'preview'>;
+
+export type ExportFormat = 'json' | 'markdown' | 'html' | 'zip';
+
+// Audio produced in this session, added to the ZIP when present
+export interface ExportAudio {
+  summary?: { blob: Blob; extension: string };
+  narration?: Blob;
+}
+
+interface ExportSection {
+  heading: string;
+  title?: string;
+  body: string;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+// SEO metadata as plain lines; empty for projects generated before it existed
+const seoLines = (content: GeneratedContent): string[] => {
+  const lines: string[] = [];
+  if (content.keywords?.length) lines.push(`Keywords: ${content.keywords.join(', ')}`);
+  if (content.thumbnailText) lines.push(`Thumbnail text: ${content.thumbnailText}`);
+  if (content.youtubeTags?.length) lines.push(`YouTube tags: ${content.youtubeTags.join(', ')}`);
+  for (const { platform, label } of HASHTAG_PLATFORMS) {
+    const tags = content.hashtags?.[platform];
+    if (tags?.length) lines.push(`${label} hashtags: ${formatHashtags(tags)}`);
+  }
+  return lines;
+};
+
+// One section per generated platform, in registry order. A single-line first field
+// (Facebook title, email subject...) becomes the section title.
+const buildSections = (content: GeneratedContent): ExportSection[] => {
+  const sections: ExportSection[] = platformsInContent(content)
+    .filter(id => id !== 'script')
+    .map(id => {
+      const { label, fields } = getPlatform(id);
+      const [first, ...rest] = fields;
+      const hasTitle = fields.length > 1 && !first.multiline;
+      const bodyFields = hasTitle ? rest : fields;
+      return {
+        heading: label,
+        title: hasTitle ? content[first.key] : undefined,
+        body: bodyFields.map(f => content[f.key]).filter(Boolean).join('\n\n')
+      };
+    });
+  sections.push({ heading: 'Audio Summary', body: content.summary });
+  const seo = seoLines(content);
+  if (seo.length > 0) sections.push({ heading: 'SEO', body: seo.join('\n') });
+  return sections;
+};
+
+export const exportFileName = (meta: ExportMetadata, extension: string) =>
+  `srotolipi_${meta.tone.toLowerCase().replace(/[^a-z0-9]+/g, '-')}_${meta.timestamp}.${extension}`;
+
+export const buildJsonExport = (content: GeneratedContent, meta: ExportMetadata): string =>
+  JSON.stringify({
+    app: 'SrotoLipi AI',
+    exportVersion: 1,
+    exportedAt: new Date().toISOString(),
+    createdAt: new Date(meta.timestamp).toISOString(),
+    tone: meta.tone,
+    preview: meta.preview,
+    content
+  }, null, 2);
+
+export const buildMarkdownBrief = (content: GeneratedContent, meta: ExportMetadata): string => {
+  const lines = [
+    `# SrotoLipi AI Content Brief`,
+    '',
+    `- **Topic:** ${meta.preview}`,
+    `- **Tone:** ${meta.tone}`,
+    `- **Created:** ${formatDate(meta.timestamp)}`,
+    ''
+  ];
+
+  for (const section of buildSections(content)) {
+    lines.push(`## ${section.heading}`, '');
+    if (section.title) lines.push(`**${section.title}**`, '');
+    lines.push(section.body, '');
+  }
+
+  if (content.videoScript.length > 0) lines.push('## Video Script', '');
+  for (const scene of content.videoScript) {
+    lines.push(
+      `### Scene ${scene.sceneNumber}${scene.duration ? ` (${scene.duration})` : ''}`,
+      '',
+      `**Visual:** ${scene.visualDescription}`,
+      '',
+      `**Voiceover:** ${scene.voiceoverText}`,
+      ''
+    );
+  }
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+// Self-contained page; Bengali needs the UTF-8 charset and a font with Bengali glyphs
+export const buildHtmlPage = (content: GeneratedContent, meta: ExportMetadata): string => {
+  const sections = buildSections(content).map(section => `
+    <section>
+      <h2>${escapeHtml(section.heading)}</h2>
+      ${section.title ? `<h3>${escapeHtml(section.title)}</h3>` : ''}
+      <p>${escapeHtml(section.body)}</p>
+    </section>`).join('');
+
+  const scenes = content.videoScript.map(scene => `
+      <tr>
+        <td>${scene.sceneNumber}</td>
+        <td>${escapeHtml(scene.duration)}</td>
+        <td>${escapeHtml(scene.visualDescription)}</td>
+        <td>${escapeHtml(scene.voiceoverText)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="bn">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${escapeHtml(content.facebookTitle || 'SrotoLipi AI Content Brief')}</title>
+  <link href="https://fonts.googleapis.com/css2?family=Hind+Siliguri:wght@400;600;700&display=swap" rel="stylesheet">
+  <style>
+    body { font-family: 'Hind Siliguri', 'Noto Sans Bengali', 'Vrinda', sans-serif; color: #1e293b; max-width: 800px; margin: 0 auto; padding: 32px; line-height: 1.7; }
+    header { border-bottom: 2px solid #2563eb; margin-bottom: 24px; }
+    .meta { color: #64748b; font-size: 14px; }
+    h2 { color: #2563eb; font-size: 18px; margin-top: 28px; }
+    h3 { font-size: 16px; margin: 4px 0; }
+    p { white-space: pre-line; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th, td { border: 1px solid #cbd5e1; padding: 8px; text-align: left; vertical-align: top; }
+    th { background: #f1f5f9; }
+    section, tr { break-inside: avoid; }
+    @media print { body { padding: 0; } }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>SrotoLipi AI Content Brief</h1>
+    <p class="meta">${escapeHtml(meta.preview)}<br />Tone: ${escapeHtml(meta.tone)} · ${escapeHtml(formatDate(meta.timestamp))}</p>
+  </header>
+  ${sections}${content.videoScript.length > 0 ? `
+  <section>
+    <h2>Video Script</h2>
+    <table>
+      <thead><tr><th>#</th><th>Duration</th><th>Visual</th><th>Voiceover</th></tr></thead>
+      <tbody>${scenes}
+      </tbody>
+    </table>
+  </section>` : ''}
+</body>
+</html>
+`;
+};
+
+export const buildExportZip = async (content: GeneratedContent, meta: ExportMetadata, audio: ExportAudio = {}): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const text = (name: string, body: string): ZipEntry => ({ name, data: encoder.encode(body) });
+
+  const entries: ZipEntry[] = [
+    text('content.json', buildJsonExport(content, meta)),
+    text('brief.md', buildMarkdownBrief(content, meta)),
+    text('brief.html', buildHtmlPage(content, meta))
+  ];
+
+  if (content.videoScript.length > 0) {
+    entries.push(text('subtitles.srt', buildSubtitles(content.videoScript, 'srt')));
+    entries.push(text('subtitles.vtt', buildSubtitles(content.videoScript, 'vtt')));
+  }
+  if (audio.summary) {
+    entries.push({ name: `audio-summary.${audio.summary.extension}`, data: new Uint8Array(await audio.summary.blob.arrayBuffer()) });
+  }
+  if (audio.narration) {
+    entries.push({ name: 'narration.wav', data: new Uint8Array(await audio.narration.arrayBuffer()) });
+  }
+
+  return new Blob([createZip(entries, new Date(meta.timestamp)) as BlobPart], { type: 'application/zip' });
+};
@@ -1,160 +1,248 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { GeneratedContent, Tone } from "../types";
-
-const SYSTEM_INSTRUCTION = `
-You are SrotoLipi AI, an advanced Bengali content creation engine. 
-Your task is to analyze the user's input (Text, Image, Video, or Audio) and generate high-quality content in BENGALI tailored for various platforms.
-
-Adhere strictly to these rules:
-1. All output MUST be in the Bengali language (except for SEO tags/hashtags which can be mixed if popular).
-2. The tone must match the user's selection.
-3. The output must be returned in strictly valid JSON format matching the schema provided.
-4. For video scripts, provide detailed visual cues and engaging voiceovers.
-5. If a specific duration is requested for the video script, ensure the scene count and word count of the voiceover matches that approximate timing.
-6. **YouTube Description**: Must be VERY LONG, detailed, and comprehensive (at least 300 words), covering the topic in depth with chapters/timestamps placeholders if applicable.
-7. **Facebook**: Provide a catchy, click-baity Title separate from the post body.
-`;
+import { GoogleGenAI, Modality } from "@google/genai";
+import { ContentField, ContentRequest, GeneratedContent, MediaPart, RegenerateTarget, SpeechRequest, Tone } from "../types";
+import { parsePartialJson } from "./partialJson";
+import { GenerationError, assertNotBlocked, classifyError } from "./errors";
+import {
+  SYSTEM_INSTRUCTION,
+  buildResponseSchema,
+  buildContentParts,
+  buildRegeneratePrompt,
+  buildMissingFieldsPrompt
+} from "./prompt";
+import { buildSpeechPrompt } from "./voice";
+import { UploadOptions, UploadedMedia, trackSlices } from "./mediaTransport";
 
 // Helper to initialize the AI client lazily
 // Accepts an optional userApiKey. If provided, it overrides the default process.env.API_KEY
-const getAiClient = (userApiKey?: string) => {
+const getAiClient = (userApiKey?: string, baseUrl?: string) => {
   const key = userApiKey || process.env.API_KEY;
-  
+
   if (!key || key === 'undefined') {
-    throw new Error("API Key is missing. Please set it in Settings or ensure 'API_KEY' is configured.");
+    throw new GenerationError('InvalidKey', "API Key is missing. Please set it in Settings or ensure 'API_KEY' is configured.");
   }
-  return new GoogleGenAI({ apiKey: key });
+  return new GoogleGenAI({ apiKey: key, httpOptions: baseUrl ? { baseUrl } : undefined });
 };
 
+// Using Gemini 3 Flash for maximum speed and low latency
+const CONTENT_MODEL = "gemini-3-flash-preview";
+// Using Gemini 2.5 Flash for fast TTS
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Single JSON-mode call; returns the raw response text
+const requestJson = async (ai: GoogleGenAI, parts: any[], responseSchema: any, signal?: AbortSignal): Promise<string> => {
+  const response = await ai.models.generateContent({
+    model: CONTENT_MODEL,
+    contents: { parts: parts },
+    config: {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseMimeType: "application/json",
+      responseSchema: responseSchema,
+      abortSignal: signal
+    }
+  });
+
+  assertNotBlocked(response);
+
+  const jsonText = response.text;
+  if (!jsonText) throw new GenerationError('MalformedResponse', "No response from Gemini.");
+  return jsonText;
+};
+
+// The functions below return the model's raw JSON text. Parsing, validation and
+// repair happen once for every backend in provider.ts.
+
 export const generateContent = async (
-  textInput: string,
-  mediaFile: { data: string; mimeType: string } | null,
-  audioInput: { data: string; mimeType: string } | null,
-  tone: Tone,
-  duration: string,
-  userApiKey?: string
-): Promise<GeneratedContent> => {
-  
+  request: ContentRequest,
+  userApiKey?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+
   // Initialize client here to handle errors gracefully
   const ai = getAiClient(userApiKey);
 
-  // Using Gemini 3 Flash for maximum speed and low latency
-  const model = "gemini-3-flash-preview";
-  
-  const parts: any[] = [];
-
-  let promptText = `Generate content with a ${tone} tone.`;
-  promptText += `\nTarget Video Script Duration: ${duration}`;
-  
-  if (textInput) promptText += `\nTopic/Context: ${textInput}`;
-  
-  parts.push({ text: promptText });
-
-  // Handle Uploaded File (Image, Video, or Audio)
-  if (mediaFile) {
-    parts.push({
-      inlineData: {
-        data: mediaFile.data,
-        mimeType: mediaFile.mimeType
-      }
-    });
-    
-    if (mediaFile.mimeType.startsWith('audio/')) {
-      parts.push({ text: "Context: The attached media is an audio file. Listen to the speech/sound carefully and use it as the primary source material." });
-    } else if (mediaFile.mimeType.startsWith('image/')) {
-      parts.push({ text: "Context: Analyze this image visually." });
-    } else if (mediaFile.mimeType.startsWith('video/')) {
-      parts.push({ text: "Context: Analyze this video visually and audibly." });
-    }
+  try {
+    return await requestJson(ai, buildContentParts(request), buildResponseSchema(request.platforms, request.languages ?? {}), signal);
+  } catch (error) {
+    console.error("Gemini Generation Error:", error);
+    throw classifyError(error);
   }
+};
 
-  // Handle Recorded Audio
-  if (audioInput) {
-    parts.push({
-      inlineData: {
-        data: audioInput.data,
-        mimeType: audioInput.mimeType
-      }
-    });
-    parts.push({ text: "Audio Context: Please listen to this recorded audio and use it as the source material." });
-  }
+// Streaming variant of generateContent. `onPartial` receives every field that has been
+// fully received so far, so the output deck can fill in card by card. Resolves with the
+// complete JSON text once the stream ends.
+export const generateContentStream = async (
+  request: ContentRequest,
+  onPartial: (partial: Partial<GeneratedContent>) => void,
+  userApiKey?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+
+  const ai = getAiClient(userApiKey);
+
+  const parts = buildContentParts(request);
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
+    const stream = await ai.models.generateContentStream({
+      model: CONTENT_MODEL,
       contents: { parts: parts },
       config: {
         systemInstruction: SYSTEM_INSTRUCTION,
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            facebookTitle: { type: Type.STRING, description: "A catchy, attention-grabbing title for Facebook." },
-            facebookPost: { type: Type.STRING, description: "Engaging Facebook post body with emojis." },
-            instagramCaption: { type: Type.STRING, description: "Short, catchy caption with hashtags." },
-            linkedinPost: { type: Type.STRING, description: "Professional and insightful post." },
-            twitterPost: { type: Type.STRING, description: "Concise tweet under 280 chars." },
-            youtubeTitle: { type: Type.STRING, description: "SEO optimized click-worthy title." },
-            youtubeDescription: { type: Type.STRING, description: "A very long, detailed, and comprehensive video description (300+ words)." },
-            summary: { type: Type.STRING, description: "A brief summary of the content for audio reading." },
-            videoScript: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  sceneNumber: { type: Type.INTEGER },
-                  visualDescription: { type: Type.STRING },
-                  voiceoverText: { type: Type.STRING },
-                  duration: { type: Type.STRING }
-                }
-              }
-            }
-          },
-          required: ["facebookTitle", "facebookPost", "instagramCaption", "linkedinPost", "twitterPost", "youtubeTitle", "youtubeDescription", "videoScript", "summary"]
-        }
+        responseSchema: buildResponseSchema(request.platforms, request.languages ?? {}),
+        abortSignal: signal
       }
     });
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response from Gemini.");
-    
-    return JSON.parse(jsonText) as GeneratedContent;
+    let jsonText = '';
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      const text = chunk.text;
+      if (!text) continue;
+      jsonText += text;
+
+      try {
+        const partial = parsePartialJson(jsonText);
+        if (partial && typeof partial === 'object') onPartial(partial as Partial<GeneratedContent>);
+      } catch {
+        // Malformed prefix; wait for more data and let the final validation report it
+      }
+    }
+
+    if (!jsonText) throw new GenerationError('MalformedResponse', "No response from Gemini.");
+
+    return jsonText;
 
   } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    throw error;
+    console.error("Gemini Streaming Error:", error);
+    throw classifyError(error);
   }
 };
 
-export const generateSpeech = async (text: string, userApiKey?: string): Promise<string> => {
+// Rewrites a single field (or a single script scene) of an existing package
+export const regenerateField = async (
+  content: GeneratedContent,
+  target: RegenerateTarget,
+  tone: Tone,
+  instruction: string,
+  userApiKey?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+
+  const ai = getAiClient(userApiKey);
+
+  const { promptText, responseSchema } = buildRegeneratePrompt(content, target, tone, instruction);
+
+  try {
+    return await requestJson(ai, [{ text: promptText }], responseSchema, signal);
+  } catch (error) {
+    console.error("Gemini Field Regeneration Error:", error);
+    throw classifyError(error);
+  }
+};
+
+// Targeted retry for fields that were missing or invalid in a full generation
+export const completeFields = async (
+  partial: Partial<GeneratedContent>,
+  fields: ContentField[],
+  request: ContentRequest,
+  userApiKey?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+
+  const ai = getAiClient(userApiKey);
+
+  const { promptText, responseSchema } = buildMissingFieldsPrompt(partial, fields, request);
+
+  try {
+    return await requestJson(ai, [{ text: promptText }], responseSchema, signal);
+  } catch (error) {
+    console.error("Gemini Field Completion Error:", error);
+    throw classifyError(error);
+  }
+};
+
+export const generateSpeech = async (request: SpeechRequest, userApiKey?: string, signal?: AbortSignal): Promise<MediaPart> => {
   // Initialize client here
   const ai = getAiClient(userApiKey);
-  
-  // Using Gemini 2.5 Flash for fast TTS
-  const model = "gemini-2.5-flash-preview-tts";
 
   try {
     const response = await ai.models.generateContent({
-      model: model,
+      model: TTS_MODEL,
       contents: {
-        parts: [{ text: text }]
+        parts: [{ text: buildSpeechPrompt(request) }]
       },
       config: {
         responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }
-          }
-        }
+        speechConfig: request.speakers
+          ? {
+              multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: request.speakers.map(({ speaker, voiceName }) => ({
+                  speaker,
+                  voiceConfig: { prebuiltVoiceConfig: { voiceName } }
+                }))
+              }
+            }
+          : {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: request.voiceName }
+              }
+            },
+        abortSignal: signal
       }
     });
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) throw new Error("Failed to generate speech.");
+    assertNotBlocked(response);
+
+    const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+    if (!inlineData?.data) throw new GenerationError('MalformedResponse', "Failed to generate speech.");
 
-    return audioData;
+    return { data: inlineData.data, mimeType: inlineData.mimeType || 'audio/L16;rate=24000' };
   } catch (error) {
     console.error("TTS Generation Error:", error);
-    throw error;
+    throw classifyError(error);
+  }
+};
+
+const FILE_POLL_MS = 2000;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Resumable upload through the Files API. Videos are processed before they can be used, so
+// this waits until the file is ACTIVE. `baseUrl` points uploads at another endpoint, such as
+// the dev server's stand-in.
+export const uploadMedia = async (blob: Blob, options: UploadOptions, userApiKey?: string, baseUrl?: string): Promise<UploadedMedia> => {
+  try {
+    const ai = getAiClient(userApiKey, baseUrl);
+    const { mimeType, displayName, onProgress, signal } = options;
+    const file = onProgress ? trackSlices(blob, mimeType, onProgress) : blob;
+
+    let uploaded = await ai.files.upload({ file, config: { mimeType, displayName, abortSignal: signal } });
+    while (uploaded.state === 'PROCESSING') {
+      await wait(FILE_POLL_MS, signal);
+      uploaded = await ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } });
+    }
+
+    if (uploaded.state === 'FAILED' || !uploaded.uri) {
+      throw new GenerationError('UnsupportedMedia', `${displayName || 'The recording'} could not be processed after upload. ${uploaded.error?.message || ''}`.trim());
+    }
+    return {
+      fileUri: uploaded.uri,
+      mimeType: uploaded.mimeType || mimeType,
+      expiresAt: uploaded.expirationTime ? Date.parse(uploaded.expirationTime) : undefined
+    };
+  } catch (error) {
+    console.error("Gemini Upload Error:", error);
+    throw classifyError(error);
   }
-};
\ No newline at end of file
+};
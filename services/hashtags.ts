@@ -0,0 +1,71 @@
+import { PlatformId, TextFieldKey } from "../types";
+import { PLATFORMS } from "./platforms";
+
+// Hashtag and tag lists for the SEO metadata: normalizing what the model returns, and
+// inserting or removing hashtags in a post body.
+
+// Platforms with their own hashtag set, and the post the hashtags go into
+export const HASHTAG_PLATFORMS: { platform: PlatformId; field: TextFieldKey; label: string }[] = PLATFORMS
+  .filter(p => p.hashtags && p.bodyField)
+  .map(p => ({ platform: p.id, field: p.bodyField!, label: p.label }));
+
+const TAG_CHARS = '\\p{L}\\p{M}\\p{N}_';
+
+// "#ঢাকা শহর" -> "ঢাকা_শহর"; hashtags end at the first space, so inner spaces become underscores
+export const cleanHashtag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, '_').replace(new RegExp(`[^${TAG_CHARS}]`, 'gu'), '');
+
+const cleanTag = (tag: string): string => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+
+const dedupe = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Accepts an array or a comma/space separated string, since models return both.
+// Returns null when nothing usable is there.
+export const normalizeTagList = (value: unknown, hashtags: boolean): string[] | null => {
+  let items: unknown[];
+  if (Array.isArray(value)) items = value;
+  else if (typeof value === 'string') items = value.split(hashtags ? /[\s,]+/ : /[,\n]+/);
+  else return null;
+
+  const tags = dedupe(items
+    .filter((item): item is string => typeof item === 'string')
+    .map(hashtags ? cleanHashtag : cleanTag));
+  return tags.length > 0 ? tags : null;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const hashtagPattern = (tag: string, flags: string) =>
+  new RegExp(`#${escapeRegExp(tag)}(?![${TAG_CHARS}])`, flags);
+
+export const hasHashtag = (body: string, tag: string): boolean => hashtagPattern(tag, 'iu').test(body);
+
+export const formatHashtags = (tags: string[]): string => tags.map(tag => `#${tag}`).join(' ');
+
+// Appends the missing hashtags to a trailing hashtag line, or starts one
+export const insertHashtags = (body: string, tags: string[]): string => {
+  const missing = tags.filter(tag => !hasHashtag(body, tag));
+  if (missing.length === 0) return body;
+
+  const trimmed = body.trimEnd();
+  const lastLine = trimmed.slice(trimmed.lastIndexOf('\n') + 1);
+  const isHashtagLine = lastLine.trim() !== '' && lastLine.trim().split(/\s+/).every(word => word.startsWith('#'));
+  return `${trimmed}${isHashtagLine ? ' ' : '\n\n'}${formatHashtags(missing)}`;
+};
+
+export const removeHashtags = (body: string, tags: string[]): string => {
+  let result = body;
+  for (const tag of tags) {
+    result = result.replace(new RegExp(`[ \\t]?${hashtagPattern(tag, '').source}`, 'giu'), '');
+  }
+  // Drop lines the removal left empty and trailing blank lines
+  return result.replace(/\n[ \t]*\n(?:[ \t]*\n)+/g, '\n\n').trimEnd();
+};
@@ -0,0 +1,82 @@
+import { GeneratedContent, HistoryItem, PlatformId, Tone } from "../types";
+import { normalizeDigits } from "./duration";
+import { PLATFORMS, getPlatform } from "./platforms";
+
+// Search and filtering for the project history sidebar
+
+export type HistoryPlatform = PlatformId;
+
+export const HISTORY_PLATFORM_LABELS = Object.fromEntries(PLATFORMS.map(p => [p.id, p.label])) as Record<HistoryPlatform, string>;
+
+const platformText = (content: GeneratedContent, platform: HistoryPlatform): string[] => {
+  if (platform === 'script') return (content.videoScript ?? []).flatMap(scene => [scene.visualDescription, scene.voiceoverText]);
+  const text = getPlatform(platform).fields.map(f => content[f.key] ?? '');
+  if (platform === 'youtube') text.push(content.thumbnailText ?? '', ...(content.youtubeTags ?? []));
+  return text;
+};
+
+export interface HistoryFilters {
+  query: string;
+  tone: Tone | '';
+  platform: HistoryPlatform | '';
+  tag: string;
+  fromDate: string; // yyyy-mm-dd from <input type="date">, inclusive
+  toDate: string;
+  pinnedOnly: boolean;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  tone: '',
+  platform: '',
+  tag: '',
+  fromDate: '',
+  toDate: '',
+  pinnedOnly: false
+};
+
+// Canonical form for matching Bengali text: the same word can arrive precomposed or as
+// base + nukta (য় / য + ়), with zero-width joiners, or with Bengali digits.
+export const normalizeForSearch = (text: string): string =>
+  normalizeDigits(text.normalize('NFC'))
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const searchableText = (item: HistoryItem, platform: HistoryPlatform | ''): string => {
+  const platforms = platform ? [platform] : PLATFORMS.map(p => p.id);
+  const parts = platforms.flatMap(p => platformText(item.data, p));
+  if (!platform) parts.push(item.preview, item.inputText ?? '', item.data.summary, ...(item.tags ?? []), ...(item.data.keywords ?? []));
+  return normalizeForSearch(parts.filter(Boolean).join(' \n '));
+};
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  Object.keys(EMPTY_HISTORY_FILTERS).some(key => filters[key as keyof HistoryFilters] !== EMPTY_HISTORY_FILTERS[key as keyof HistoryFilters]);
+
+// Every query word must appear somewhere in the item. Pinned items come first, newest first within each group.
+export const filterHistory = (items: HistoryItem[], filters: HistoryFilters): HistoryItem[] => {
+  const terms = normalizeForSearch(filters.query).split(' ').filter(Boolean);
+  const from = filters.fromDate ? dayStart(filters.fromDate) : -Infinity;
+  const to = filters.toDate ? dayStart(filters.toDate) + 24 * 60 * 60 * 1000 : Infinity;
+
+  return items
+    .filter(item => {
+      if (filters.pinnedOnly && !item.pinned) return false;
+      if (filters.tone && item.tone !== filters.tone) return false;
+      if (filters.tag && !(item.tags ?? []).includes(filters.tag)) return false;
+      if (item.timestamp < from || item.timestamp >= to) return false;
+      if (filters.platform && !platformText(item.data, filters.platform).some(text => text?.trim())) return false;
+      if (terms.length === 0) return true;
+      const text = searchableText(item, filters.platform);
+      return terms.every(term => text.includes(term));
+    })
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+};
+
+export const collectTags = (items: HistoryItem[]): string[] =>
+  [...new Set(items.flatMap(item => item.tags ?? []))].sort((a, b) => a.localeCompare(b));
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#/, '').replace(/\s+/g, '-');
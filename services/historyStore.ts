@@ -0,0 +1,131 @@
+import { HistoryAttachments, HistoryItem } from "../types";
+
+// IndexedDB persistence for project history. Items (generated text plus metadata) and their
+// attachments (input file, recording, TTS audio) live in separate stores so the sidebar
+// list never has to load media.
+
+const DB_NAME = 'srotolipi';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'history';
+const ATTACHMENTS_STORE = 'attachments';
+const LEGACY_HISTORY_KEY = 'srotolipi_history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+          db.createObjectStore(ITEMS_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+          db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves with its result once the transaction commits
+const withStores = async <T,>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const tx = (await openDb()).transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+// Newest first, like the sidebar shows them
+export const listHistory = async (): Promise<HistoryItem[]> => {
+  const items = await withStores([ITEMS_STORE], 'readonly', tx =>
+    requestResult(tx.objectStore(ITEMS_STORE).index('timestamp').getAll() as IDBRequest<HistoryItem[]>));
+  return items.reverse();
+};
+
+export const saveHistoryItem = (item: HistoryItem): Promise<void> =>
+  withStores([ITEMS_STORE], 'readwrite', tx => {
+    tx.objectStore(ITEMS_STORE).put(item);
+  });
+
+export const deleteHistoryItem = (id: string): Promise<void> =>
+  withStores([ITEMS_STORE, ATTACHMENTS_STORE], 'readwrite', tx => {
+    tx.objectStore(ITEMS_STORE).delete(id);
+    tx.objectStore(ATTACHMENTS_STORE).delete(id);
+  });
+
+export const clearHistory = (): Promise<void> =>
+  withStores([ITEMS_STORE, ATTACHMENTS_STORE], 'readwrite', tx => {
+    tx.objectStore(ITEMS_STORE).clear();
+    tx.objectStore(ATTACHMENTS_STORE).clear();
+  });
+
+export const loadAttachments = async (id: string): Promise<HistoryAttachments | null> => {
+  const attachments = await withStores([ATTACHMENTS_STORE], 'readonly', tx =>
+    requestResult(tx.objectStore(ATTACHMENTS_STORE).get(id) as IDBRequest<HistoryAttachments | undefined>));
+  return attachments ?? null;
+};
+
+// Merges `patch` into the item's attachments, e.g. to add TTS audio after the fact
+export const saveAttachments = (id: string, patch: Partial<Omit<HistoryAttachments, 'id'>>): Promise<void> =>
+  withStores([ATTACHMENTS_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const existing = await requestResult(store.get(id) as IDBRequest<HistoryAttachments | undefined>);
+    store.put({ id, file: null, recording: null, speech: null, ...existing, ...patch });
+  });
+
+// One-time move of the old localStorage JSON blob. The key is removed only after the
+// items are committed, so an interrupted migration simply runs again on the next load.
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return 0;
+
+  let items: HistoryItem[] = [];
+  try {
+    const parsed = JSON.parse(saved);
+    if (Array.isArray(parsed)) items = parsed;
+  } catch {
+    console.error("Discarding unreadable legacy history");
+  }
+
+  await withStores([ITEMS_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(ITEMS_STORE);
+    items.forEach(item => store.put(item));
+  });
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return items.length;
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Origin-wide estimate from the browser; null where the Storage API is unavailable
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,71 @@
+import { OutputLanguage, PlatformId, PlatformLanguages } from "../types";
+
+// Output language per platform, and the prompt and schema wording for each language
+
+export interface LanguageDefinition {
+  id: OutputLanguage;
+  label: string;
+  schemaNote: string; // appended to the schema description of every field in this language
+  definition?: string; // spelled out once in the prompt when a platform uses the language
+}
+
+export const OUTPUT_LANGUAGES: LanguageDefinition[] = [
+  {
+    id: 'bengali',
+    label: 'Bengali',
+    schemaNote: "Written in Bengali."
+  },
+  {
+    id: 'english',
+    label: 'English',
+    schemaNote: "Written in English."
+  },
+  {
+    id: 'banglish',
+    label: 'Banglish',
+    schemaNote: "Written in Banglish (Bengali in Roman letters).",
+    definition: "Banglish means Bengali words written in Roman letters the way people type them in chats, e.g. \"Ajker tips gulo miss korben na!\". Do not use Bengali script in Banglish text."
+  },
+  {
+    id: 'bilingual',
+    label: 'Bilingual',
+    schemaNote: "Written bilingually: Bengali first, then English.",
+    definition: "Bilingual means the Bengali text first, followed by the same content in English. Single-line fields such as titles put both on one line separated by \" | \"."
+  }
+];
+
+export const DEFAULT_LANGUAGE: OutputLanguage = 'bengali';
+
+export const getLanguage = (id: OutputLanguage): LanguageDefinition => OUTPUT_LANGUAGES.find(l => l.id === id)!;
+
+export const languageFor = (languages: PlatformLanguages | undefined, platform: PlatformId): OutputLanguage =>
+  languages?.[platform] ?? DEFAULT_LANGUAGE;
+
+// The summary is read aloud, so it takes the language all platforms share and Bengali otherwise
+export const summaryLanguage = (platforms: PlatformId[], languages?: PlatformLanguages): OutputLanguage => {
+  const used = new Set(platforms.map(id => languageFor(languages, id)));
+  return used.size === 1 ? [...used][0] : DEFAULT_LANGUAGE;
+};
+
+// Only keeps entries that differ from the default, so stored settings stay small
+export const setPlatformLanguage = (languages: PlatformLanguages, platform: PlatformId, language: OutputLanguage): PlatformLanguages => {
+  const next = { ...languages };
+  if (language === DEFAULT_LANGUAGE) delete next[platform];
+  else next[platform] = language;
+  return next;
+};
+
+const LANGUAGES_STORAGE_KEY = 'srotolipi_languages';
+
+export const loadPlatformLanguages = (): PlatformLanguages => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LANGUAGES_STORAGE_KEY) ?? '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+};
+
+export const savePlatformLanguages = (languages: PlatformLanguages) => {
+  localStorage.setItem(LANGUAGES_STORAGE_KEY, JSON.stringify(languages));
+};
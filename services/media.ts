@@ -0,0 +1,34 @@
+import { HistoryAttachments, MediaAttachment } from "../types";
+
+// Input files attached to a generation: which files are accepted, list editing, and reading
+// attachments saved with a history item
+
+export const ACCEPTED_MEDIA = 'image/*,video/*,audio/*';
+
+export const isSupportedMedia = (file: File) => /^(image|video|audio)\//.test(file.type);
+
+export const createAttachment = (file: File, caption = ''): MediaAttachment => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  file,
+  caption
+});
+
+// Moves the item at `from` so it ends up at index `to`
+export const moveAttachment = (list: MediaAttachment[], from: number, to: number): MediaAttachment[] => {
+  if (from === to || from < 0 || from >= list.length || to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Items saved before several files could be attached only have `file`
+export const savedAttachments = (saved: HistoryAttachments | null): MediaAttachment[] =>
+  saved?.files ?? (saved?.file ? [createAttachment(saved.file)] : []);
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
@@ -0,0 +1,197 @@
+import { MediaDerivation, PreprocessSettings } from "../types";
+import { MediaSource, fingerprint } from "./mediaTransport";
+import { encodeWav, floatToPcm16 } from "./audioEncoding";
+import { formatFileSize } from "./media";
+
+// Shrinks attachments in the browser before they are sent: images are downscaled and re-encoded,
+// videos become key frames plus their audio track, and audio is down-mixed to mono and resampled.
+// Whatever comes out is only used when it is smaller than the original.
+
+export interface ProcessedMedia {
+  // Sent in place of the original, in order
+  outputs: MediaSource[];
+  originalBytes: number;
+  processedBytes: number;
+  // What was done, e.g. "1600×900 JPEG"; empty when the original is sent
+  summary: string;
+  // Why the original is sent although it could be processed, e.g. the result came out larger
+  unchanged?: string;
+}
+
+type ProcessedBlobs = Omit<ProcessedMedia, 'outputs'> & { outputs: { blob: Blob; derived?: MediaDerivation }[] };
+
+const PREPROCESS_STORAGE_KEY = 'srotolipi_preprocess';
+// Larger videos are sent as they are: decoding their soundtrack would take too much memory
+const MAX_VIDEO_DECODE_BYTES = 200 * 1024 * 1024;
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  enabled: true,
+  imageMaxDimension: 1600,
+  imageQuality: 0.85,
+  videoKeyFrames: 8,
+  videoFrameMaxDimension: 768,
+  audioSampleRate: 16000
+};
+
+export const loadPreprocessSettings = (): PreprocessSettings => {
+  try {
+    const saved = localStorage.getItem(PREPROCESS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PREPROCESS_SETTINGS;
+  } catch {
+    return DEFAULT_PREPROCESS_SETTINGS;
+  }
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings) => {
+  localStorage.setItem(PREPROCESS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Painted over white so transparent PNGs do not turn black as JPEG
+const drawToJpeg = (source: CanvasImageSource, size: { width: number; height: number }, quality: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.drawImage(source, 0, 0, size.width, size.height);
+  return new Promise((resolve, reject) => canvas.toBlob(
+    blob => blob ? resolve(blob) : reject(new Error('The image could not be encoded.')),
+    'image/jpeg',
+    quality
+  ));
+};
+
+const mediaEvent = (element: HTMLMediaElement, event: 'loadedmetadata' | 'seeked') => new Promise<void>((resolve, reject) => {
+  const done = () => {
+    element.removeEventListener(event, onEvent);
+    element.removeEventListener('error', onError);
+  };
+  const onEvent = () => { done(); resolve(); };
+  const onError = () => { done(); reject(new Error('The video could not be decoded.')); };
+  element.addEventListener(event, onEvent);
+  element.addEventListener('error', onError);
+});
+
+// Frames spread evenly through the video, each from the middle of its stretch
+const sampleKeyFrames = async (blob: Blob, settings: PreprocessSettings): Promise<{ at: number; blob: Blob }[]> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await mediaEvent(video, 'loadedmetadata');
+    const { duration, videoWidth, videoHeight } = video;
+    if (!Number.isFinite(duration) || !videoWidth) throw new Error('The video has no readable frames.');
+
+    const size = scaleToFit(videoWidth, videoHeight, settings.videoFrameMaxDimension);
+    const frames: { at: number; blob: Blob }[] = [];
+    for (let i = 0; i < settings.videoKeyFrames; i++) {
+      const at = (i + 0.5) * duration / settings.videoKeyFrames;
+      video.currentTime = at;
+      await mediaEvent(video, 'seeked');
+      frames.push({ at, blob: await drawToJpeg(video, size, settings.imageQuality) });
+    }
+    return frames;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Decodes an audio file (or a video's soundtrack) and renders it as a mono WAV at `sampleRate`.
+// Returns null when there is no audio the browser can decode.
+const toMonoWav = async (blob: Blob, sampleRate: number): Promise<Blob | null> => {
+  let decoded: AudioBuffer;
+  try {
+    decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    return null;
+  }
+  if (!decoded.length) return null;
+
+  const ctx = new OfflineAudioContext(1, Math.ceil(decoded.duration * sampleRate), sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = decoded;
+  source.connect(ctx.destination); // a mono destination down-mixes every channel
+  source.start();
+  const rendered = await ctx.startRendering();
+
+  const pcm = floatToPcm16([rendered.getChannelData(0)], rendered.length);
+  return new Blob([encodeWav(pcm, { sampleRate, channels: 1, bitsPerSample: 16 }) as BlobPart], { type: 'audio/wav' });
+};
+
+const preprocessBlob = async (blob: Blob, settings: PreprocessSettings): Promise<ProcessedBlobs> => {
+  const original: ProcessedBlobs = { outputs: [{ blob }], originalBytes: blob.size, processedBytes: blob.size, summary: '' };
+  let processed: Omit<ProcessedBlobs, 'originalBytes' | 'processedBytes'>;
+
+  try {
+    if (blob.type.startsWith('image/')) {
+      const bitmap = await createImageBitmap(blob);
+      const size = scaleToFit(bitmap.width, bitmap.height, settings.imageMaxDimension);
+      const jpeg = await drawToJpeg(bitmap, size, settings.imageQuality);
+      bitmap.close();
+      processed = { outputs: [{ blob: jpeg }], summary: `${size.width}×${size.height} JPEG` };
+    } else if (blob.type.startsWith('audio/')) {
+      const wav = await toMonoWav(blob, settings.audioSampleRate);
+      if (!wav) return original;
+      processed = { outputs: [{ blob: wav }], summary: `Mono ${settings.audioSampleRate / 1000} kHz WAV` };
+    } else if (blob.type.startsWith('video/') && settings.videoKeyFrames > 0 && blob.size <= MAX_VIDEO_DECODE_BYTES) {
+      const video = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const frames = await sampleKeyFrames(blob, settings);
+      const audio = await toMonoWav(blob, settings.audioSampleRate);
+      processed = {
+        outputs: [
+          ...frames.map(frame => ({ blob: frame.blob, derived: { video, kind: 'keyframe' as const, at: frame.at } })),
+          ...(audio ? [{ blob: audio, derived: { video, kind: 'audioTrack' as const } }] : [])
+        ],
+        summary: `${frames.length} key frames${audio ? ' + audio' : ', no audio track found'}`
+      };
+    } else {
+      return original;
+    }
+  } catch (error) {
+    console.warn("Preprocessing failed, sending the original file:", error);
+    return original;
+  }
+
+  const processedBytes = processed.outputs.reduce((sum, output) => sum + output.blob.size, 0);
+  // Compressed audio (mp3, opus) is usually smaller than even a mono 16 kHz WAV
+  if (processedBytes >= blob.size) {
+    return { ...original, unchanged: `Sent as is: ${processed.summary} would be ${formatFileSize(processedBytes)}` };
+  }
+  return { ...processed, originalBytes: blob.size, processedBytes };
+};
+
+// Each file is processed once per settings; the attachment list and generation share the result
+const processedCache = new WeakMap<Blob, Map<string, Promise<ProcessedBlobs>>>();
+
+export const preprocessMedia = async (source: MediaSource, settings: PreprocessSettings): Promise<ProcessedMedia> => {
+  if (!settings.enabled) {
+    return { outputs: [source], originalBytes: source.blob.size, processedBytes: source.blob.size, summary: '' };
+  }
+
+  const key = JSON.stringify(settings);
+  let bySettings = processedCache.get(source.blob);
+  if (!bySettings) {
+    bySettings = new Map();
+    processedCache.set(source.blob, bySettings);
+  }
+  if (!bySettings.has(key)) bySettings.set(key, preprocessBlob(source.blob, settings));
+
+  // Processed blobs are new each session, so uploads are matched on the original file and settings
+  const result = await bySettings.get(key)!;
+  const reuseKey = (index: number) => result.summary ? `${fingerprint(source.blob)}|${key}|${index}` : undefined;
+  return {
+    ...result,
+    outputs: result.outputs.map((output, index) => ({ ...output, name: source.name, caption: source.caption, reuseKey: reuseKey(index) }))
+  };
+};
@@ -0,0 +1,231 @@
+import { MediaDerivation, MediaInput } from "../types";
+import { GenerationError } from "./errors";
+import { formatFileSize } from "./media";
+
+// Getting attached media to the model: small files travel inline as base64, large ones are
+// uploaded once through the provider's file API and referenced by URI.
+
+// A file or recording to send with a generation
+export interface MediaSource {
+  blob: Blob;
+  name?: string;
+  caption?: string;
+  derived?: MediaDerivation;
+  // Identifies the content for upload reuse when `blob` was made in the browser (see fingerprint)
+  reuseKey?: string;
+}
+
+export interface MediaLimits {
+  // Raw bytes that may travel inline in one request (base64 adds a third on top)
+  inlineBudgetBytes: number;
+  // Largest file the provider's file API accepts, or 0 when it cannot upload
+  maxUploadBytes: number;
+  mimeTypes: string[];
+}
+
+export interface UploadOptions {
+  mimeType: string;
+  displayName?: string;
+  // Bytes of this file sent so far
+  onProgress?: (loaded: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface UploadedMedia {
+  fileUri: string;
+  mimeType: string;
+  // Uploaded files are deleted by the provider after a while
+  expiresAt?: number;
+}
+
+export type UploadMedia = (blob: Blob, options: UploadOptions) => Promise<UploadedMedia>;
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface PrepareMediaOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Gemini accepts requests up to 20 MB, base64 included
+export const GEMINI_MEDIA_LIMITS: MediaLimits = {
+  inlineBudgetBytes: 14 * 1024 * 1024,
+  maxUploadBytes: 2 * 1024 * 1024 * 1024,
+  mimeTypes: [
+    'image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif',
+    'video/mp4', 'video/mpeg', 'video/mov', 'video/quicktime', 'video/avi', 'video/x-msvideo', 'video/x-flv',
+    'video/mpg', 'video/webm', 'video/wmv', 'video/x-ms-wmv', 'video/3gpp',
+    'audio/wav', 'audio/x-wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac',
+    'audio/webm', 'audio/mp4'
+  ]
+};
+
+// Chat-completions servers take images and wav/mp3 audio inline only
+export const OPENAI_MEDIA_LIMITS: MediaLimits = {
+  inlineBudgetBytes: 14 * 1024 * 1024,
+  maxUploadBytes: 0,
+  mimeTypes: ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'audio/wav', 'audio/x-wav', 'audio/mp3', 'audio/mpeg']
+};
+
+const UPLOAD_STORAGE_KEY = 'srotolipi_uploads';
+// An upload this close to expiring is sent again rather than risk it vanishing mid-request
+const EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+const labelOf = (source: MediaSource) => source.name || 'The recording';
+
+// Throws before anything is read or sent if a file has the wrong type or is too large
+export const validateMedia = (sources: MediaSource[], limits: MediaLimits) => {
+  for (const source of sources) {
+    const mimeType = baseMimeType(source.blob.type);
+    if (!limits.mimeTypes.includes(mimeType)) {
+      throw new GenerationError('UnsupportedMedia',
+        `${labelOf(source)} is ${mimeType ? `of type ${mimeType}` : 'of an unknown type'}, which this provider does not accept.`);
+    }
+
+    const maxBytes = limits.maxUploadBytes || limits.inlineBudgetBytes;
+    if (source.blob.size > maxBytes) {
+      throw new GenerationError('PayloadTooLarge',
+        `${labelOf(source)} is ${formatFileSize(source.blob.size)}; this provider accepts at most ${formatFileSize(maxBytes)} per file.`);
+    }
+  }
+
+  const total = sources.reduce((sum, source) => sum + source.blob.size, 0);
+  if (!limits.maxUploadBytes && total > limits.inlineBudgetBytes) {
+    throw new GenerationError('PayloadTooLarge',
+      `The attached media adds up to ${formatFileSize(total)}; this provider accepts at most ${formatFileSize(limits.inlineBudgetBytes)} per request.`);
+  }
+};
+
+// Which sources to upload: the smallest files fill the inline budget and the rest are uploaded
+export const planUploads = (sources: MediaSource[], limits: MediaLimits): boolean[] => {
+  const upload = sources.map(() => limits.maxUploadBytes > 0);
+  if (!limits.maxUploadBytes) return upload;
+
+  let inlineBytes = 0;
+  const bySize = sources.map((source, index) => ({ size: source.blob.size, index })).sort((a, b) => a.size - b.size);
+  for (const { size, index } of bySize) {
+    if (inlineBytes + size > limits.inlineBudgetBytes) break;
+    inlineBytes += size;
+    upload[index] = false;
+  }
+  return upload;
+};
+
+export const readAsBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// --- Upload reuse ---
+// Files picked from disk are recognised by name, size and modification time, so a reopened
+// project can reuse its uploads. Recordings only match the same Blob within the session, so
+// their uploads are kept in memory rather than saved.
+
+const blobIds = new WeakMap<Blob, string>();
+const SESSION_ID_PREFIX = 'blob-';
+const sessionUploads = new Map<string, UploadedMedia>();
+
+export const fingerprint = (blob: Blob): string => {
+  if (blob instanceof File) return `${blob.name}:${blob.size}:${blob.lastModified}:${blob.type}`;
+  let id = blobIds.get(blob);
+  if (!id) {
+    id = `${SESSION_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    blobIds.set(blob, id);
+  }
+  return id;
+};
+
+const isFresh = (upload: UploadedMedia) => !upload.expiresAt || upload.expiresAt - Date.now() > EXPIRY_MARGIN_MS;
+
+const loadUploads = (): Record<string, UploadedMedia> => {
+  try {
+    const saved: Record<string, UploadedMedia> = JSON.parse(localStorage.getItem(UPLOAD_STORAGE_KEY) || '{}');
+    return Object.fromEntries(Object.entries(saved).filter(([, upload]) => isFresh(upload)));
+  } catch {
+    return {};
+  }
+};
+
+const rememberUpload = (key: string, upload: UploadedMedia, persist: boolean) => {
+  if (!persist) {
+    sessionUploads.set(key, upload);
+    return;
+  }
+  const uploads = { ...loadUploads(), [key]: upload };
+  localStorage.setItem(UPLOAD_STORAGE_KEY, JSON.stringify(uploads));
+};
+
+const findUpload = (uploads: Record<string, UploadedMedia>, key: string): UploadedMedia | undefined => {
+  const upload = uploads[key] ?? sessionUploads.get(key);
+  return upload && isFresh(upload) ? upload : undefined;
+};
+
+// Sends each source inline or through `upload` (reusing earlier uploads to the same `scope`)
+// and returns them in the same order. Upload progress covers only the bytes actually sent.
+export const prepareMedia = async (
+  sources: MediaSource[],
+  limits: MediaLimits,
+  upload: UploadMedia | undefined,
+  scope: string,
+  options: PrepareMediaOptions = {}
+): Promise<MediaInput[]> => {
+  // Without an upload function everything has to fit inline
+  const effective = upload ? limits : { ...limits, maxUploadBytes: 0 };
+  validateMedia(sources, effective);
+  const plan = planUploads(sources, effective);
+
+  const uploads = loadUploads();
+  const ids = sources.map(source => source.reuseKey ?? fingerprint(source.blob));
+  const keys = ids.map(id => `${scope}|${id}`);
+  const pending = sources.filter((_, i) => plan[i] && !findUpload(uploads, keys[i]));
+  const total = pending.reduce((sum, source) => sum + source.blob.size, 0);
+  let done = 0;
+  if (total > 0) options.onProgress?.({ loaded: 0, total });
+
+  const inputs: MediaInput[] = [];
+  for (const [i, source] of sources.entries()) {
+    // Recorders report codec parameters ("audio/webm;codecs=opus"); the model only wants the container
+    const mimeType = baseMimeType(source.blob.type);
+    const described = { name: source.name, caption: source.caption, derived: source.derived };
+
+    if (!plan[i]) {
+      inputs.push({ data: await readAsBase64(source.blob), mimeType, ...described });
+      continue;
+    }
+
+    let uploaded = findUpload(uploads, keys[i]);
+    if (!uploaded) {
+      uploaded = await upload!(source.blob, {
+        mimeType,
+        displayName: source.name,
+        signal: options.signal,
+        onProgress: (loaded) => options.onProgress?.({ loaded: done + loaded, total })
+      });
+      done += source.blob.size;
+      options.onProgress?.({ loaded: done, total });
+      rememberUpload(keys[i], uploaded, !ids[i].startsWith(SESSION_ID_PREFIX));
+    }
+    inputs.push({ fileUri: uploaded.fileUri, mimeType: uploaded.mimeType || mimeType, ...described });
+  }
+  return inputs;
+};
+
+// The SDK sends a file in chunks cut with Blob.slice; each new slice means the bytes before
+// it have been sent, which is as close to progress as the SDK gets
+export const trackSlices = (blob: Blob, mimeType: string, onProgress: (loaded: number) => void): Blob => {
+  const tracked = new Blob([blob], { type: mimeType });
+  const slice = tracked.slice.bind(tracked);
+  tracked.slice = (start?: number, end?: number, contentType?: string) => {
+    onProgress(start ?? 0);
+    return slice(start, end, contentType);
+  };
+  return tracked;
+};
@@ -0,0 +1,186 @@
+import { ContentField, ContentRequest, GeneratedContent, MediaPart, RegenerateTarget, SpeechRequest, Tone } from "../types";
+import { parsePartialJson } from "./partialJson";
+import { bytesToBase64, encodeWav } from "./audioEncoding";
+import { buildResponseSchema } from "./prompt";
+import { PLATFORM_IDS } from "./platforms";
+import { UploadOptions, UploadedMedia } from "./mediaTransport";
+
+// Deterministic offline provider. Returns fixture Bengali content and a short silent clip,
+// so the UI can be developed and tested with no API key and no network.
+
+const STREAM_CHUNK_SIZE = 160;
+const STREAM_CHUNK_DELAY_MS = 25;
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+const UPLOAD_CHUNK_DELAY_MS = 100;
+const UPLOAD_LIFETIME_MS = 48 * 60 * 60 * 1000;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const topicOf = (request: ContentRequest): string => {
+  if (request.textInput.trim()) return request.textInput.trim().slice(0, 40);
+  if (request.mediaFiles.length > 0) return 'আপলোড করা মিডিয়া';
+  if (request.audioInput) return 'রেকর্ড করা অডিও';
+  return 'নতুন বিষয়';
+};
+
+export const buildMockContent = (request: ContentRequest): GeneratedContent => {
+  const topic = topicOf(request);
+
+  return {
+    facebookTitle: `${topic} — যা আপনার জানা দরকার!`,
+    facebookPost: `আজ আমরা কথা বলব "${topic}" নিয়ে। 🌟\n\nএই বিষয়টি নিয়ে অনেকের মনে প্রশ্ন আছে, তাই সহজ ভাষায় সবকিছু তুলে ধরলাম। পুরো পোস্টটি পড়ুন এবং আপনার মতামত কমেন্টে জানান! 👇`,
+    instagramCaption: `${topic} ✨ নতুন কিছু শিখুন, নতুনভাবে ভাবুন। #স্রোতলিপি #বাংলা #কনটেন্ট`,
+    linkedinPost: `"${topic}" বিষয়ে কয়েকটি গুরুত্বপূর্ণ পর্যবেক্ষণ শেয়ার করছি। পেশাগত জীবনে এই অভিজ্ঞতাগুলো আমাকে অনেক কিছু শিখিয়েছে। আপনার অভিজ্ঞতা কী?`,
+    twitterPost: `${topic} নিয়ে এক লাইনে: ছোট শুরু, বড় পরিবর্তন। 🚀 #স্রোতলিপি`,
+    youtubeTitle: `${topic} | সম্পূর্ণ গাইড (${request.tone})`,
+    youtubeDescription: [
+      `এই ভিডিওতে আমরা "${topic}" নিয়ে বিস্তারিত আলোচনা করেছি।`,
+      '',
+      'অধ্যায়সমূহ:',
+      '0:00 ভূমিকা',
+      '0:15 মূল আলোচনা',
+      '0:35 উপসংহার',
+      '',
+      'ভিডিওটি ভালো লাগলে লাইক, শেয়ার এবং সাবস্ক্রাইব করতে ভুলবেন না।'
+    ].join('\n'),
+    videoScript: [
+      { sceneNumber: 1, visualDescription: 'উপস্থাপক ক্যামেরার দিকে তাকিয়ে হাসছেন।', voiceoverText: `স্বাগতম! আজকের বিষয় ${topic}।`, duration: '0:15' },
+      { sceneNumber: 2, visualDescription: 'বিষয়ের সাথে সম্পর্কিত ছবি ও গ্রাফিক্স।', voiceoverText: 'চলুন ধাপে ধাপে বিষয়টি বুঝে নিই।', duration: '0:20' },
+      { sceneNumber: 3, visualDescription: 'সাবস্ক্রাইব বাটনসহ শেষ দৃশ্য।', voiceoverText: 'ভিডিওটি ভালো লাগলে সাবস্ক্রাইব করুন।', duration: '0:10' }
+    ],
+    tiktokHook: `${topic} নিয়ে এই ভুলটা আপনিও করছেন? 😮`,
+    tiktokCaption: `${topic} — ৩০ সেকেন্ডে সহজ ব্যাখ্যা! শেষ পর্যন্ত দেখুন 👀`,
+    threadsPost: `${topic} নিয়ে আপনার প্রথম অভিজ্ঞতা কেমন ছিল? নিচে লিখুন, সবার গল্প শুনতে চাই। 🧵`,
+    whatsappMessage: `*${topic}* 📢\n\nআজকের নতুন কনটেন্ট তৈরি! _সহজ ভাষায়_ পুরো বিষয়টি জানতে লিংকে ক্লিক করুন।\n\n👉 এখনই দেখুন`,
+    blogTitle: `${topic}: সহজ বাংলায় সম্পূর্ণ গাইড`,
+    blogMetaDescription: `${topic} কী, কেন গুরুত্বপূর্ণ এবং কীভাবে শুরু করবেন — সহজ বাংলায় ধাপে ধাপে জানুন।`,
+    blogArticle: [
+      `${topic} নিয়ে অনেকের মনে প্রশ্ন আছে। এই লেখায় আমরা সহজ ভাষায় বিষয়টি বুঝিয়ে বলব।`,
+      '',
+      `## ${topic} কী?`,
+      '',
+      'বিষয়টির মূল ধারণা এবং এর পেছনের প্রেক্ষাপট।',
+      '',
+      '## কেন গুরুত্বপূর্ণ',
+      '',
+      '### দৈনন্দিন জীবনে',
+      '',
+      'ছোট ছোট উদাহরণে এর প্রভাব।',
+      '',
+      '## উপসংহার',
+      '',
+      'ছোট করে শুরু করুন, নিয়মিত চর্চা করুন।'
+    ].join('\n'),
+    newsletterSubject: `এই সপ্তাহে: ${topic}`,
+    newsletterPreheader: 'পাঁচ মিনিটে পড়ে ফেলার মতো একটি সহজ গাইড।',
+    newsletterBody: `প্রিয় পাঠক,\n\nএই সপ্তাহে আমরা "${topic}" নিয়ে লিখেছি। মূল কথাগুলো সংক্ষেপে তুলে ধরলাম।\n\nপুরো লেখাটি পড়ুন এবং আপনার মতামত জানান।\n\nশুভেচ্ছান্তে,\nস্রোতলিপি টিম`,
+    summary: `${topic} বিষয়ে একটি সংক্ষিপ্ত ও সহজ আলোচনা।`,
+    hashtags: {
+      facebook: ['স্রোতলিপি', 'বাংলা'],
+      instagram: ['স্রোতলিপি', 'বাংলা', 'কনটেন্ট', 'শিখুন', 'BanglaContent'],
+      linkedin: ['শেখা', 'ক্যারিয়ার'],
+      twitter: ['স্রোতলিপি'],
+      tiktok: ['স্রোতলিপি', 'বাংলাটিকটক', 'শিখুন']
+    },
+    youtubeTags: [topic, `${topic} গাইড`, 'বাংলা টিউটোরিয়াল', 'bangla tutorial'],
+    keywords: [topic, 'সহজ গাইড', 'বাংলা'],
+    thumbnailText: 'সম্পূর্ণ গাইড!'
+  };
+};
+
+// The fixture cut down to what the request's response schema asks for
+const buildMockResponse = (request: ContentRequest): Partial<GeneratedContent> => {
+  const schema = buildResponseSchema(request.platforms);
+  const fixture = buildMockContent(request);
+  const response: any = Object.fromEntries(Object.keys(schema.properties).map(key => [key, (fixture as any)[key]]));
+  if (response.hashtags) {
+    response.hashtags = Object.fromEntries(Object.keys(schema.properties.hashtags.properties).map(id => [id, (fixture.hashtags as any)[id]]));
+  }
+  return response;
+};
+
+// Like the real backends, these return JSON text for provider.ts to validate
+export const generateContent = async (request: ContentRequest, signal?: AbortSignal): Promise<string> => {
+  await delay(STREAM_CHUNK_DELAY_MS, signal);
+  return JSON.stringify(buildMockResponse(request));
+};
+
+// Replays the fixture as JSON text in small chunks through the same partial parser as the real providers
+export const generateContentStream = async (
+  request: ContentRequest,
+  onPartial: (partial: Partial<GeneratedContent>) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const jsonText = JSON.stringify(buildMockResponse(request));
+
+  for (let end = STREAM_CHUNK_SIZE; end < jsonText.length + STREAM_CHUNK_SIZE; end += STREAM_CHUNK_SIZE) {
+    await delay(STREAM_CHUNK_DELAY_MS, signal);
+    onPartial(parsePartialJson(jsonText.slice(0, end)) as Partial<GeneratedContent>);
+  }
+
+  return jsonText;
+};
+
+export const regenerateField = async (
+  content: GeneratedContent,
+  target: RegenerateTarget,
+  _tone: Tone,
+  instruction: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  await delay(STREAM_CHUNK_DELAY_MS, signal);
+  const note = instruction.trim() ? ` (${instruction.trim()})` : ' (নতুন সংস্করণ)';
+
+  if (target.kind === 'fields') {
+    return JSON.stringify(Object.fromEntries(target.fields.map(f => [f, `${content[f] ?? ''}${note}`])));
+  }
+
+  const scene = content.videoScript[target.sceneIndex];
+  return JSON.stringify({ ...scene, voiceoverText: `${scene.voiceoverText}${note}` });
+};
+
+// Fills the requested fields from the fixture
+export const completeFields = async (
+  _partial: Partial<GeneratedContent>,
+  fields: ContentField[],
+  request: ContentRequest,
+  signal?: AbortSignal
+): Promise<string> => {
+  await delay(STREAM_CHUNK_DELAY_MS, signal);
+  const fixture = buildMockContent({ ...request, platforms: PLATFORM_IDS });
+  return JSON.stringify(Object.fromEntries(fields.map(f => [f, fixture[f]])));
+};
+
+// Half a second of 24 kHz, 16-bit mono silence in a WAV container
+export const generateSpeech = async (_request: SpeechRequest, signal?: AbortSignal): Promise<MediaPart> => {
+  const silence = new Uint8Array(24000); // 0.5 s * 24000 samples * 2 bytes
+  const wav = encodeWav(silence, { sampleRate: 24000, channels: 1, bitsPerSample: 16 });
+
+  await delay(STREAM_CHUNK_DELAY_MS, signal);
+  return { data: bytesToBase64(wav), mimeType: 'audio/wav' };
+};
+
+// Pretends to upload in chunks so upload progress can be tried offline
+export const uploadMedia = async (blob: Blob, options: UploadOptions): Promise<UploadedMedia> => {
+  for (let loaded = 0; loaded < blob.size; loaded += UPLOAD_CHUNK_SIZE) {
+    options.onProgress?.(loaded);
+    await delay(UPLOAD_CHUNK_DELAY_MS, options.signal);
+  }
+  options.onProgress?.(blob.size);
+  return {
+    fileUri: `mock://files/${Math.random().toString(36).slice(2, 10)}`,
+    mimeType: options.mimeType,
+    expiresAt: Date.now() + UPLOAD_LIFETIME_MS
+  };
+};
@@ -0,0 +1,98 @@
+import { MediaPart, VideoScriptScene } from "../types";
+import { encodeWav, floatToPcm16 } from "./audioEncoding";
+import { parseDurationSeconds } from "./duration";
+import { classifyError } from "./errors";
+import { isCancelled } from "./retry";
+
+// Per-scene voiceover synthesis and the stitched narration track built from it
+
+export type SceneAudioStatus = 'pending' | 'synthesizing' | 'ready' | 'error';
+
+export interface SceneAudio {
+  status: SceneAudioStatus;
+  buffer?: AudioBuffer;
+  error?: string;
+}
+
+export const NARRATION_CONCURRENCY = 3;
+
+// Minimum pause between scenes, even when a clip runs past its scripted duration
+const MIN_SCENE_GAP_SECONDS = 0.3;
+
+// Runs `task` for every item with at most `limit` in flight; results keep the input order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Synthesizes every scene's voiceover, reporting each status change through `onSceneUpdate`.
+// A failed scene is recorded and the others continue; cancellation stops everything.
+export const synthesizeScenes = async (
+  scenes: VideoScriptScene[],
+  synthesize: (text: string, signal?: AbortSignal) => Promise<MediaPart>,
+  decode: (speech: MediaPart) => Promise<AudioBuffer>,
+  options: {
+    signal?: AbortSignal;
+    concurrency?: number;
+    onSceneUpdate: (index: number, audio: SceneAudio) => void;
+  }
+): Promise<(AudioBuffer | null)[]> => {
+  const { signal, concurrency = NARRATION_CONCURRENCY, onSceneUpdate } = options;
+  scenes.forEach((_, index) => onSceneUpdate(index, { status: 'pending' }));
+
+  return mapWithConcurrency(scenes, concurrency, async (scene, index) => {
+    onSceneUpdate(index, { status: 'synthesizing' });
+    try {
+      const buffer = await decode(await synthesize(scene.voiceoverText, signal));
+      onSceneUpdate(index, { status: 'ready', buffer });
+      return buffer;
+    } catch (error) {
+      const failure = classifyError(error);
+      if (isCancelled(failure)) throw failure;
+      onSceneUpdate(index, { status: 'error', error: failure.message });
+      return null;
+    }
+  });
+};
+
+// Silence after a clip so the next scene starts where the script says it should
+export const sceneGapSeconds = (scene: VideoScriptScene, clipSeconds: number): number => {
+  const target = parseDurationSeconds(scene.duration);
+  return target === null ? MIN_SCENE_GAP_SECONDS : Math.max(MIN_SCENE_GAP_SECONDS, target - clipSeconds);
+};
+
+// Concatenates the scene clips into one mono WAV. All buffers must come from the same
+// AudioContext so they share a sample rate.
+export const stitchNarration = (scenes: VideoScriptScene[], buffers: AudioBuffer[]): Uint8Array => {
+  const sampleRate = buffers[0]?.sampleRate ?? 24000;
+  const segments: { channels: Float32Array[]; length: number }[] = [];
+
+  buffers.forEach((buffer, index) => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    segments.push({ channels, length: buffer.length });
+    if (index < buffers.length - 1) {
+      segments.push({ channels: [], length: Math.round(sceneGapSeconds(scenes[index], buffer.duration) * sampleRate) });
+    }
+  });
+
+  const chunks = segments.map(segment => floatToPcm16(segment.channels, segment.length));
+  const pcm = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return encodeWav(pcm, { sampleRate, channels: 1, bitsPerSample: 16 });
+};
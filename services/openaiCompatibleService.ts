@@ -0,0 +1,217 @@
+import { ContentField, ContentRequest, GeneratedContent, MediaPart, ProviderSettings, RegenerateTarget, SpeechRequest, Tone } from "../types";
+import { parsePartialJson } from "./partialJson";
+import { bytesToBase64 } from "./audioEncoding";
+import { GenerationError, classifyError, kindFromStatus } from "./errors";
+import { PACE_SPEED } from "./voice";
+import {
+  SYSTEM_INSTRUCTION,
+  buildResponseSchema,
+  buildContentParts,
+  buildRegeneratePrompt,
+  buildMissingFieldsPrompt,
+  toJsonSchema
+} from "./prompt";
+
+// Talks to any server implementing the OpenAI chat completions and speech endpoints,
+// so a local model server can stand in for Gemini. Like geminiService, the generation
+// functions return raw JSON text for provider.ts to validate.
+
+type OpenAISettings = Pick<ProviderSettings, 'openaiBaseUrl' | 'openaiApiKey' | 'openaiModel' | 'openaiTtsModel' | 'openaiVoice'>;
+
+const endpoint = (settings: OpenAISettings, path: string) => {
+  if (!settings.openaiBaseUrl) {
+    throw new GenerationError('InvalidKey', "Base URL is missing. Please set the OpenAI-compatible server URL in Settings.");
+  }
+  return `${settings.openaiBaseUrl.replace(/\/+$/, '')}${path}`;
+};
+
+const headers = (settings: OpenAISettings): Record<string, string> => {
+  const h: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.openaiApiKey) h['Authorization'] = `Bearer ${settings.openaiApiKey}`;
+  return h;
+};
+
+// Translates Gemini-style `{ text } | { inlineData }` parts into chat message content
+const toMessageContent = (parts: any[]): any[] => parts.map((part) => {
+  if (part.text !== undefined) return { type: 'text', text: part.text };
+  if (part.fileData) {
+    throw new GenerationError('PayloadTooLarge', 'The OpenAI-compatible provider cannot use uploaded files; attach smaller media instead.');
+  }
+
+  const { data, mimeType } = part.inlineData as MediaPart;
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  if (mimeType.startsWith('audio/')) {
+    // e.g. audio/wav -> wav, audio/webm;codecs=opus -> webm
+    const format = mimeType.split('/')[1].split(';')[0];
+    return { type: 'input_audio', input_audio: { data, format } };
+  }
+  throw new GenerationError('UnsupportedMedia', `The OpenAI-compatible provider does not support ${mimeType} input.`);
+});
+
+const chatBody = (settings: OpenAISettings, content: any[], schema: any, stream: boolean) => ({
+  model: settings.openaiModel,
+  stream,
+  messages: [
+    { role: 'system', content: SYSTEM_INSTRUCTION },
+    { role: 'user', content }
+  ],
+  response_format: {
+    type: 'json_schema',
+    json_schema: { name: 'srotolipi_output', schema: toJsonSchema(schema) }
+  }
+});
+
+const ensureOk = async (response: Response) => {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new GenerationError(kindFromStatus(response.status, body), `Request failed with status ${response.status}. ${body}`.trim());
+  }
+};
+
+const completeChat = async (settings: OpenAISettings, content: any[], schema: any, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(endpoint(settings, '/chat/completions'), {
+    method: 'POST',
+    headers: headers(settings),
+    body: JSON.stringify(chatBody(settings, content, schema, false)),
+    signal
+  });
+  await ensureOk(response);
+
+  const json = await response.json();
+  const text = json.choices?.[0]?.message?.content;
+  if (!text) throw new GenerationError('MalformedResponse', "No response from the OpenAI-compatible server.");
+  return text;
+};
+
+export const generateContent = async (
+  request: ContentRequest,
+  settings: OpenAISettings,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const content = toMessageContent(buildContentParts(request));
+    return await completeChat(settings, content, buildResponseSchema(request.platforms, request.languages ?? {}), signal);
+  } catch (error) {
+    console.error("OpenAI-compatible Generation Error:", error);
+    throw classifyError(error);
+  }
+};
+
+// Streaming variant over server-sent events (`data: {...}` lines, ending with `data: [DONE]`)
+export const generateContentStream = async (
+  request: ContentRequest,
+  onPartial: (partial: Partial<GeneratedContent>) => void,
+  settings: OpenAISettings,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const content = toMessageContent(buildContentParts(request));
+    const response = await fetch(endpoint(settings, '/chat/completions'), {
+      method: 'POST',
+      headers: headers(settings),
+      body: JSON.stringify(chatBody(settings, content, buildResponseSchema(request.platforms, request.languages ?? {}), true)),
+      signal
+    });
+    await ensureOk(response);
+    if (!response.body) throw new GenerationError('Network', "Streaming is not supported by this server.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let jsonText = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') continue;
+
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (!delta) continue;
+        jsonText += delta;
+
+        try {
+          const partial = parsePartialJson(jsonText);
+          if (partial && typeof partial === 'object') onPartial(partial as Partial<GeneratedContent>);
+        } catch {
+          // Malformed prefix; wait for more data and let the final validation report it
+        }
+      }
+    }
+
+    if (!jsonText) throw new GenerationError('MalformedResponse', "No response from the OpenAI-compatible server.");
+
+    return jsonText;
+  } catch (error) {
+    console.error("OpenAI-compatible Streaming Error:", error);
+    throw classifyError(error);
+  }
+};
+
+export const regenerateField = async (
+  content: GeneratedContent,
+  target: RegenerateTarget,
+  tone: Tone,
+  instruction: string,
+  settings: OpenAISettings,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const { promptText, responseSchema } = buildRegeneratePrompt(content, target, tone, instruction);
+    return await completeChat(settings, [{ type: 'text', text: promptText }], responseSchema, signal);
+  } catch (error) {
+    console.error("OpenAI-compatible Field Regeneration Error:", error);
+    throw classifyError(error);
+  }
+};
+
+export const completeFields = async (
+  partial: Partial<GeneratedContent>,
+  fields: ContentField[],
+  request: ContentRequest,
+  settings: OpenAISettings,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const { promptText, responseSchema } = buildMissingFieldsPrompt(partial, fields, request);
+    return await completeChat(settings, [{ type: 'text', text: promptText }], responseSchema, signal);
+  } catch (error) {
+    console.error("OpenAI-compatible Field Completion Error:", error);
+    throw classifyError(error);
+  }
+};
+
+// Voices are configured separately for this backend; only the pace carries over
+export const generateSpeech = async (request: SpeechRequest, settings: OpenAISettings, signal?: AbortSignal): Promise<MediaPart> => {
+  try {
+    const response = await fetch(endpoint(settings, '/audio/speech'), {
+      method: 'POST',
+      headers: headers(settings),
+      body: JSON.stringify({
+        model: settings.openaiTtsModel,
+        input: request.text,
+        voice: settings.openaiVoice,
+        speed: PACE_SPEED[request.pace],
+        response_format: 'wav'
+      }),
+      signal
+    });
+    await ensureOk(response);
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return { data: bytesToBase64(bytes), mimeType: 'audio/wav' };
+  } catch (error) {
+    console.error("OpenAI-compatible TTS Error:", error);
+    throw classifyError(error);
+  }
+};
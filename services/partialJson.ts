@@ -0,0 +1,107 @@
+// Tolerant parser for JSON text that is still arriving from a streaming response.
+// Unterminated strings and numbers are dropped and arrays only keep their complete items.
+// Objects keep every complete property, plus a still-open array or object property, so a
+// list such as `videoScript` can grow item by item while the rest of the payload streams.
+
+interface ParsedValue {
+  value: unknown;
+  complete: boolean;
+}
+
+const INCOMPLETE: ParsedValue = { value: undefined, complete: false };
+
+export const parsePartialJson = (text: string): unknown => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): ParsedValue => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '\\') {
+        pos += 2;
+        continue;
+      }
+      if (ch === '"') {
+        pos++;
+        return { value: JSON.parse(text.slice(start, pos)), complete: true };
+      }
+      pos++;
+    }
+    return INCOMPLETE;
+  };
+
+  const parseLiteral = (): ParsedValue => {
+    const start = pos;
+    while (pos < text.length && /[^\s,\]}]/.test(text[pos])) pos++;
+    // A number at the very end of the buffer may still be growing
+    if (pos >= text.length) return INCOMPLETE;
+    return { value: JSON.parse(text.slice(start, pos)), complete: true };
+  };
+
+  const parseArray = (): ParsedValue => {
+    pos++; // [
+    const items: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: items, complete: false };
+      if (text[pos] === ']') {
+        pos++;
+        return { value: items, complete: true };
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      const item = parseValue();
+      if (!item.complete) return { value: items, complete: false };
+      items.push(item.value);
+    }
+  };
+
+  const parseObject = (): ParsedValue => {
+    pos++; // {
+    const obj: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: obj, complete: false };
+      if (text[pos] === '}') {
+        pos++;
+        return { value: obj, complete: true };
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] !== '"') throw new SyntaxError(`Unexpected token ${text[pos]} in JSON at position ${pos}`);
+
+      const key = parseString();
+      if (!key.complete) return { value: obj, complete: false };
+
+      skipWhitespace();
+      if (pos >= text.length) return { value: obj, complete: false };
+      if (text[pos] !== ':') throw new SyntaxError(`Expected ':' in JSON at position ${pos}`);
+      pos++;
+
+      const prop = parseValue();
+      if (prop.value !== undefined) obj[key.value as string] = prop.value;
+      if (!prop.complete) return { value: obj, complete: false };
+    }
+  };
+
+  const parseValue = (): ParsedValue => {
+    skipWhitespace();
+    if (pos >= text.length) return INCOMPLETE;
+    const ch = text[pos];
+    if (ch === '{') return parseObject();
+    if (ch === '[') return parseArray();
+    if (ch === '"') return parseString();
+    return parseLiteral();
+  };
+
+  return parseValue().value;
+};
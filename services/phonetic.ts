@@ -0,0 +1,271 @@
+// Avro-style phonetic typing: Roman letters in, Bengali script out. Words are converted
+// by letter rules, with candidate spellings for the letters the rules cannot tell apart and
+// a user dictionary that remembers the candidates a writer picks.
+
+type TokenKind = 'vowel' | 'consonant' | 'phola' | 'sign';
+
+interface PhoneticToken {
+  roman: string;
+  kind: TokenKind;
+  text: string; // independent vowel, consonant, or the sign itself
+  kar?: string; // vowel sign after a consonant; phola (র/য/ব-ফলা) for 'phola' tokens
+}
+
+// Only these letters mean something different in upper case (T is ট, t is ত); the rest are case-folded
+const CASE_SENSITIVE = 'oiudgjnrstyz';
+
+const TOKENS = ([
+  // Vowels: the independent letter at the start of a word or after a vowel, the kar after a consonant
+  { roman: 'rri', kind: 'vowel', text: 'ঋ', kar: 'ৃ' },
+  { roman: 'OI', kind: 'vowel', text: 'ঐ', kar: 'ৈ' },
+  { roman: 'OU', kind: 'vowel', text: 'ঔ', kar: 'ৌ' },
+  { roman: 'ou', kind: 'vowel', text: 'ঔ', kar: 'ৌ' },
+  { roman: 'ee', kind: 'vowel', text: 'ঈ', kar: 'ী' },
+  { roman: 'oo', kind: 'vowel', text: 'উ', kar: 'ু' },
+  { roman: 'o', kind: 'vowel', text: 'অ', kar: '' },
+  { roman: 'a', kind: 'vowel', text: 'আ', kar: 'া' },
+  { roman: 'i', kind: 'vowel', text: 'ই', kar: 'ি' },
+  { roman: 'I', kind: 'vowel', text: 'ঈ', kar: 'ী' },
+  { roman: 'u', kind: 'vowel', text: 'উ', kar: 'ু' },
+  { roman: 'U', kind: 'vowel', text: 'ঊ', kar: 'ূ' },
+  { roman: 'e', kind: 'vowel', text: 'এ', kar: 'ে' },
+  { roman: 'O', kind: 'vowel', text: 'ও', kar: 'ো' },
+
+  { roman: 'kSh', kind: 'consonant', text: 'ক্ষ' },
+  { roman: 'kkh', kind: 'consonant', text: 'ক্ষ' },
+  { roman: 't``', kind: 'sign', text: 'ৎ' },
+  { roman: 'kh', kind: 'consonant', text: 'খ' },
+  { roman: 'gh', kind: 'consonant', text: 'ঘ' },
+  { roman: 'gg', kind: 'consonant', text: 'জ্ঞ' },
+  { roman: 'Ng', kind: 'consonant', text: 'ঙ' },
+  { roman: 'NG', kind: 'consonant', text: 'ঞ' },
+  { roman: 'chh', kind: 'consonant', text: 'ছ' },
+  { roman: 'ch', kind: 'consonant', text: 'চ' },
+  { roman: 'jh', kind: 'consonant', text: 'ঝ' },
+  { roman: 'Th', kind: 'consonant', text: 'ঠ' },
+  { roman: 'Dh', kind: 'consonant', text: 'ঢ' },
+  { roman: 'th', kind: 'consonant', text: 'থ' },
+  { roman: 'dh', kind: 'consonant', text: 'ধ' },
+  { roman: 'ph', kind: 'consonant', text: 'ফ' },
+  { roman: 'bh', kind: 'consonant', text: 'ভ' },
+  { roman: 'Sh', kind: 'consonant', text: 'ষ' },
+  { roman: 'sh', kind: 'consonant', text: 'শ' },
+  { roman: 'Rh', kind: 'consonant', text: 'ঢ়' },
+  { roman: 'rr', kind: 'sign', text: 'র্' }, // reph over the next consonant
+  { roman: 'ng', kind: 'sign', text: 'ং' }, // ঙ before a vowel
+  { roman: 'k', kind: 'consonant', text: 'ক' },
+  { roman: 'q', kind: 'consonant', text: 'ক' },
+  { roman: 'x', kind: 'consonant', text: 'ক্স' },
+  { roman: 'g', kind: 'consonant', text: 'গ' },
+  { roman: 'c', kind: 'consonant', text: 'চ' },
+  { roman: 'j', kind: 'consonant', text: 'জ' },
+  { roman: 'J', kind: 'consonant', text: 'জ' },
+  { roman: 'T', kind: 'consonant', text: 'ট' },
+  { roman: 'D', kind: 'consonant', text: 'ড' },
+  { roman: 'N', kind: 'consonant', text: 'ণ' },
+  { roman: 't', kind: 'consonant', text: 'ত' },
+  { roman: 'd', kind: 'consonant', text: 'দ' },
+  { roman: 'n', kind: 'consonant', text: 'ন' },
+  { roman: 'p', kind: 'consonant', text: 'প' },
+  { roman: 'f', kind: 'consonant', text: 'ফ' },
+  { roman: 'b', kind: 'consonant', text: 'ব' },
+  { roman: 'v', kind: 'consonant', text: 'ভ' },
+  { roman: 'm', kind: 'consonant', text: 'ম' },
+  { roman: 'z', kind: 'consonant', text: 'য' },
+  { roman: 'l', kind: 'consonant', text: 'ল' },
+  { roman: 'S', kind: 'consonant', text: 'শ' },
+  { roman: 's', kind: 'consonant', text: 'স' },
+  { roman: 'h', kind: 'consonant', text: 'হ' },
+  { roman: 'R', kind: 'consonant', text: 'ড়' },
+  { roman: 'Y', kind: 'consonant', text: 'য়' },
+
+  // After a consonant these become a phola; elsewhere they are ordinary letters
+  { roman: 'r', kind: 'phola', text: 'র', kar: '্র' },
+  { roman: 'y', kind: 'phola', text: 'য়', kar: '্য' },
+  { roman: 'w', kind: 'phola', text: 'ও', kar: '্ব' },
+  { roman: 'Z', kind: 'phola', text: '্য', kar: '্য' },
+
+  { roman: '^', kind: 'sign', text: 'ঁ' },
+  { roman: '`', kind: 'sign', text: '' } // separator: stops a conjunct or a kar
+] as PhoneticToken[]).sort((a, b) => b.roman.length - a.roman.length);
+
+// Consonant pairs typed back to back that form a juktakkhor; any other pair stays two letters
+const CONJUNCTS = new Set([
+  'কক', 'কট', 'কত', 'কব', 'কম', 'কল', 'কস', 'গধ', 'গন', 'গব', 'গম', 'গল', 'ঙক', 'ঙগ',
+  'চচ', 'চছ', 'জজ', 'জঝ', 'জব', 'ঞচ', 'ঞছ', 'ঞজ', 'টট', 'ডড', 'ণট', 'ণঠ', 'ণড', 'ণণ',
+  'তত', 'তথ', 'তন', 'তব', 'তম', 'দদ', 'দধ', 'দব', 'দভ', 'দম', 'ধব', 'নট', 'নড', 'নত',
+  'নথ', 'নদ', 'নধ', 'নন', 'নব', 'নম', 'নস', 'পট', 'পত', 'পন', 'পপ', 'পল', 'পস', 'ফল',
+  'বজ', 'বদ', 'বধ', 'বব', 'বল', 'ভল', 'মন', 'মপ', 'মফ', 'মব', 'মভ', 'মম', 'মল', 'লক',
+  'লগ', 'লট', 'লড', 'লপ', 'লফ', 'লব', 'লম', 'লল', 'শচ', 'শছ', 'শন', 'শব', 'শম', 'শল',
+  'ষক', 'ষট', 'ষঠ', 'ষণ', 'ষপ', 'ষফ', 'ষম', 'সক', 'সখ', 'সট', 'সত', 'সথ', 'সন', 'সপ',
+  'সফ', 'সব', 'সম', 'সল', 'হন', 'হব', 'হম', 'হল'
+]);
+
+// Letters the rules cannot tell apart; each swap becomes a candidate
+const ALTERNATIVES: Record<string, string[]> = {
+  'স': ['শ', 'ষ'], 'শ': ['স', 'ষ'], 'ষ': ['শ', 'স'],
+  'ন': ['ণ'], 'ণ': ['ন'],
+  'জ': ['য'], 'য': ['জ'],
+  'ত': ['ট', 'ৎ'], 'ট': ['ত'],
+  'দ': ['ড'], 'ড': ['দ'],
+  'র': ['ড়'], 'ড়': ['র'],
+  'ি': ['ী'], 'ী': ['ি'], 'ই': ['ঈ'], 'ঈ': ['ই'],
+  'ু': ['ূ'], 'ূ': ['ু'], 'উ': ['ঊ'], 'ঊ': ['উ'],
+  '': ['ো'] // a final "o" is often meant as ো (valo -> ভালো)
+};
+
+// Common words the letter rules get wrong; the user dictionary takes precedence
+const COMMON_WORDS: Record<string, string> = {
+  amra: 'আমরা',
+  tomra: 'তোমরা',
+  tomar: 'তোমার',
+  tomake: 'তোমাকে',
+  valo: 'ভালো',
+  bhalo: 'ভালো',
+  kothay: 'কোথায়',
+  kobe: 'কবে',
+  keno: 'কেন',
+  onek: 'অনেক',
+  kora: 'করা',
+  korte: 'করতে',
+  shob: 'সব',
+  shobai: 'সবাই',
+  bangladesh: 'বাংলাদেশ',
+  dhonnobad: 'ধন্যবাদ'
+};
+
+const BENGALI_DIGITS = '০১২৩৪৫৬৭৮৯';
+
+const MAX_SUGGESTIONS = 6;
+
+interface Segment {
+  text: string;
+  alternatives: string[];
+}
+
+export const fixCase = (roman: string): string =>
+  [...roman].map(ch => CASE_SENSITIVE.includes(ch.toLowerCase()) ? ch : ch.toLowerCase()).join('');
+
+const tokenize = (roman: string): (PhoneticToken | string)[] => {
+  const tokens: (PhoneticToken | string)[] = [];
+  let i = 0;
+  while (i < roman.length) {
+    const token = TOKENS.find(t => roman.startsWith(t.roman, i));
+    tokens.push(token ?? roman[i]);
+    i += token ? token.roman.length : 1;
+  }
+  return tokens;
+};
+
+const withAlternatives = (prefix: string, letter: string): Segment => ({
+  text: prefix + letter,
+  alternatives: [
+    ...(ALTERNATIVES[letter] ?? []).map(alt => prefix + alt),
+    ...(prefix ? [letter] : []) // the same letters without the conjunct
+  ]
+});
+
+const toSegments = (roman: string): Segment[] => {
+  const tokens = tokenize(fixCase(roman));
+  const segments: Segment[] = [];
+  let prev: 'start' | 'consonant' | 'vowel' | 'sign' = 'start';
+  let prevLetter = '';
+
+  tokens.forEach((token, i) => {
+    if (typeof token === 'string') {
+      segments.push({ text: token, alternatives: [] });
+      prev = 'sign';
+      return;
+    }
+
+    if (token.kind === 'vowel') {
+      const text = prev === 'consonant' ? token.kar! : token.text;
+      segments.push({ text, alternatives: ALTERNATIVES[text] ?? [] });
+      prev = 'vowel';
+    } else if (token.kind === 'phola' && prev === 'consonant') {
+      segments.push({ text: token.kar!, alternatives: token.roman === 'Z' ? [] : [token.text] });
+      prevLetter = '';
+    } else if (token.kind === 'phola') {
+      segments.push(withAlternatives('', token.text));
+      prev = token.roman === 'w' ? 'vowel' : token.roman === 'Z' ? 'sign' : 'consonant';
+      prevLetter = token.text;
+    } else if (token.roman === 'ng') {
+      const next = tokens[i + 1];
+      const beforeVowel = typeof next !== 'string' && next?.kind === 'vowel';
+      segments.push({ text: beforeVowel ? 'ঙ' : token.text, alternatives: [] });
+      prev = beforeVowel ? 'consonant' : 'sign';
+      prevLetter = 'ঙ';
+    } else if (token.kind === 'consonant') {
+      const joins = prev === 'consonant' && CONJUNCTS.has(prevLetter + token.text[0]);
+      segments.push(withAlternatives(joins ? '্' : '', token.text));
+      prev = 'consonant';
+      prevLetter = token.text[token.text.length - 1];
+    } else {
+      segments.push({ text: token.text, alternatives: [] });
+      prev = 'sign';
+    }
+  });
+  return segments;
+};
+
+export const transliterate = (roman: string): string => toSegments(roman).map(s => s.text).join('');
+
+// Candidates for a word, best first: the user's earlier choice, a known word, the rules'
+// spelling, single-letter variants of it, and finally the Roman text unchanged
+export const getSuggestions = (roman: string, dictionary: PhoneticDictionary = loadPhoneticDictionary()): string[] => {
+  const key = fixCase(roman);
+  const segments = toSegments(roman);
+  const base = segments.map(s => s.text);
+  const variants = segments.flatMap((segment, i) =>
+    segment.alternatives.map(alt => [...base.slice(0, i), alt, ...base.slice(i + 1)].join(''))
+  );
+
+  const candidates = [dictionary[key], COMMON_WORDS[key.toLowerCase()], base.join(''), ...variants].filter(Boolean) as string[];
+  return [...new Set(candidates)].slice(0, MAX_SUGGESTIONS - 1).concat(roman);
+};
+
+export const toBengaliDigits = (text: string): string => text.replace(/[0-9]/g, d => BENGALI_DIGITS[Number(d)]);
+
+// User dictionary: Roman spelling -> chosen Bengali word
+
+export type PhoneticDictionary = Record<string, string>;
+
+const DICTIONARY_STORAGE_KEY = 'srotolipi_phonetic_dictionary';
+
+export const loadPhoneticDictionary = (): PhoneticDictionary => {
+  try {
+    return JSON.parse(localStorage.getItem(DICTIONARY_STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+};
+
+export const savePhoneticDictionary = (dictionary: PhoneticDictionary) => {
+  localStorage.setItem(DICTIONARY_STORAGE_KEY, JSON.stringify(dictionary));
+};
+
+export const learnWord = (roman: string, word: string) => {
+  savePhoneticDictionary({ ...loadPhoneticDictionary(), [fixCase(roman)]: word });
+};
+
+// On/off state is shared by every phonetic field, so the shortcut in one applies to all
+
+const ENABLED_STORAGE_KEY = 'srotolipi_phonetic';
+const listeners = new Set<(enabled: boolean) => void>();
+
+export const PHONETIC_SHORTCUT = 'Ctrl+M';
+
+export const isToggleShortcut = (e: { ctrlKey: boolean; metaKey: boolean; altKey: boolean; key: string }) =>
+  e.ctrlKey && !e.metaKey && !e.altKey && e.key.toLowerCase() === 'm';
+
+export const isPhoneticEnabled = (): boolean => localStorage.getItem(ENABLED_STORAGE_KEY) === 'on';
+
+export const setPhoneticEnabled = (enabled: boolean) => {
+  localStorage.setItem(ENABLED_STORAGE_KEY, enabled ? 'on' : 'off');
+  listeners.forEach(listener => listener(enabled));
+};
+
+export const subscribePhonetic = (listener: (enabled: boolean) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
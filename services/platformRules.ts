@@ -0,0 +1,107 @@
+import { GeneratedContent, TextFieldKey } from "../types";
+import { CountMethod, FieldLimit, PLATFORM_FIELDS } from "./platforms";
+
+// Checks the length and hashtag limits the platform registry declares per field. Counts are
+// by grapheme cluster, so a Bengali conjunct or an emoji with modifiers counts once, except
+// on X, which weights code points. That makes Bengali expensive there: "ক্ষমা" is 3 graphemes
+// but 5 code points.
+
+export interface PlatformRule extends FieldLimit {
+  platform: string;
+}
+
+export interface FieldCheck {
+  rule: PlatformRule;
+  length: number;
+  hashtags: number;
+  violations: string[];
+}
+
+export const PLATFORM_RULES: Partial<Record<TextFieldKey, PlatformRule>> = Object.fromEntries(
+  PLATFORM_FIELDS.filter(f => f.limit).map(f => [f.key, { platform: f.label, ...f.limit! }])
+);
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter('bn', { granularity: 'grapheme' })
+  : null;
+
+export const splitGraphemes = (text: string): string[] =>
+  segmenter ? Array.from(segmenter.segment(text), s => s.segment) : Array.from(text);
+
+export const countGraphemes = (text: string): number => splitGraphemes(text).length;
+
+// X (twitter-text v3): every code point counts, weighing 1 in these ranges (Latin through
+// Bengali) and 2 elsewhere (CJK...). An emoji sequence weighs 2 and every URL 23.
+const X_LIGHT_RANGES: [number, number][] = [[0, 4351], [8192, 8205], [8208, 8223], [8242, 8247]];
+const X_URL_WEIGHT = 23;
+const URL_PATTERN = /https?:\/\/\S+|\bwww\.\S+/gi;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+export const countXWeighted = (text: string): number => {
+  let weight = 0;
+  const withoutUrls = text.replace(URL_PATTERN, () => {
+    weight += X_URL_WEIGHT;
+    return '';
+  });
+
+  for (const grapheme of splitGraphemes(withoutUrls)) {
+    if (EMOJI_PATTERN.test(grapheme)) {
+      weight += 2;
+      continue;
+    }
+    for (const char of grapheme) {
+      const code = char.codePointAt(0)!;
+      weight += X_LIGHT_RANGES.some(([from, to]) => code >= from && code <= to) ? 1 : 2;
+    }
+  }
+  return weight;
+};
+
+export const countHashtags = (text: string): number =>
+  (text.match(/#[\p{L}\p{M}\p{N}_]+/gu) ?? []).length;
+
+export const measure = (text: string, method: CountMethod): number =>
+  method === 'x-weighted' ? countXWeighted(text) : countGraphemes(text);
+
+export const checkField = (field: TextFieldKey, text: string): FieldCheck | null => {
+  const rule = PLATFORM_RULES[field];
+  if (!rule) return null;
+
+  const length = measure(text, rule.count);
+  const hashtags = countHashtags(text);
+  const violations: string[] = [];
+  if (length > rule.maxLength) {
+    violations.push(`${rule.platform} allows ${rule.maxLength} ${rule.count === 'x-weighted' ? 'weighted characters' : 'characters'} (${length} used)`);
+  }
+  if (rule.maxHashtags !== undefined && hashtags > rule.maxHashtags) {
+    violations.push(`${rule.platform} allows ${rule.maxHashtags} hashtags (${hashtags} used)`);
+  }
+  return { rule, length, hashtags, violations };
+};
+
+export const checkContent = (content: Partial<GeneratedContent>): Partial<Record<TextFieldKey, FieldCheck>> => {
+  const checks: Partial<Record<TextFieldKey, FieldCheck>> = {};
+  for (const field of Object.keys(PLATFORM_RULES) as TextFieldKey[]) {
+    const text = content[field];
+    if (typeof text === 'string') checks[field] = checkField(field, text) ?? undefined;
+  }
+  return checks;
+};
+
+// Regenerate instruction for the auto-fit action. X's counting is spelled out because the
+// model would otherwise count visible letters, not code points.
+export const buildFitInstruction = (check: FieldCheck): string => {
+  const { rule } = check;
+  const parts: string[] = [];
+  if (check.length > rule.maxLength) {
+    const target = Math.floor(rule.maxLength * 0.9);
+    parts.push(rule.count === 'x-weighted'
+      ? `Shorten it to fit X's limit of ${target}: every Bengali letter, vowel sign (কার) and hasanta counts separately, each emoji counts as 2 and each link as 23.`
+      : `Shorten it to at most ${target} characters.`);
+  }
+  if (rule.maxHashtags !== undefined && check.hashtags > rule.maxHashtags) {
+    parts.push(`Use no more than ${rule.maxHashtags} hashtags.`);
+  }
+  parts.push('Keep the message, language and tone.');
+  return parts.join(' ');
+};
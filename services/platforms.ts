@@ -0,0 +1,264 @@
+import { Type } from "@google/genai";
+import { AtSign, Facebook, FileText, FileVideo, Image as ImageIcon, Linkedin, LucideIcon, Mail, MessageCircle, Music2, Twitter, Youtube } from 'lucide-react';
+import { ContentField, GeneratedContent, PlatformId, TextFieldKey } from "../types";
+
+// Platform registry. Each output target declares its schema fields, prompt rules, length
+// limits and how its card looks; the response schema, prompt, validation and output tabs
+// are all built from the platforms chosen for a generation.
+
+export type CountMethod = 'graphemes' | 'x-weighted';
+
+export interface FieldLimit {
+  maxLength: number;
+  count: CountMethod;
+  maxHashtags?: number;
+}
+
+export interface PlatformField {
+  key: TextFieldKey;
+  label: string;
+  description: string; // schema description the model sees
+  multiline?: boolean;
+  limit?: FieldLimit;
+}
+
+export type PlatformTab = 'social' | 'youtube' | 'script' | 'longform';
+
+export interface PlatformCardStyle {
+  color: string;
+  bgColor: string;
+  borderColor: string;
+  wide?: boolean; // spans the full width of the deck
+}
+
+export interface PlatformDefinition {
+  id: PlatformId;
+  label: string;
+  icon: LucideIcon;
+  tab: PlatformTab;
+  fields: PlatformField[];
+  bodyField?: TextFieldKey; // main text; hashtags are inserted here
+  hashtags?: string; // schema description of the platform's hashtag list
+  schema?: Record<string, any>; // extra response properties beyond the text fields
+  rules: string[]; // prompt rules, sent only when the platform is chosen
+  card: PlatformCardStyle;
+  defaultSelected?: boolean;
+}
+
+export const tagListSchema = (description: string) => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+export const SCENE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sceneNumber: { type: Type.INTEGER },
+    visualDescription: { type: Type.STRING },
+    voiceoverText: { type: Type.STRING },
+    duration: { type: Type.STRING }
+  }
+};
+
+export const PLATFORMS: PlatformDefinition[] = [
+  {
+    id: 'facebook',
+    label: 'Facebook',
+    icon: Facebook,
+    tab: 'social',
+    fields: [
+      { key: 'facebookTitle', label: 'Facebook title', description: "A catchy, attention-grabbing title for Facebook." },
+      { key: 'facebookPost', label: 'Facebook post', description: "Engaging Facebook post body with emojis.", multiline: true, limit: { maxLength: 63206, count: 'graphemes' } }
+    ],
+    bodyField: 'facebookPost',
+    hashtags: "3-5 hashtags for Facebook.",
+    rules: ["Facebook: provide a catchy, click-baity title separate from the post body."],
+    card: { color: 'text-blue-600', bgColor: 'bg-blue-50', borderColor: 'border-blue-100', wide: true },
+    defaultSelected: true
+  },
+  {
+    id: 'instagram',
+    label: 'Instagram',
+    icon: ImageIcon,
+    tab: 'social',
+    fields: [
+      { key: 'instagramCaption', label: 'Instagram caption', description: "Short, catchy caption with hashtags.", multiline: true, limit: { maxLength: 2200, count: 'graphemes', maxHashtags: 30 } }
+    ],
+    bodyField: 'instagramCaption',
+    hashtags: "Up to 20 hashtags for Instagram, popular and niche.",
+    rules: [],
+    card: { color: 'text-pink-600', bgColor: 'bg-pink-50', borderColor: 'border-pink-100' },
+    defaultSelected: true
+  },
+  {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    icon: Linkedin,
+    tab: 'social',
+    fields: [
+      { key: 'linkedinPost', label: 'LinkedIn post', description: "Professional and insightful post.", multiline: true, limit: { maxLength: 3000, count: 'graphemes' } }
+    ],
+    bodyField: 'linkedinPost',
+    hashtags: "3-5 professional hashtags for LinkedIn.",
+    rules: [],
+    card: { color: 'text-blue-700', bgColor: 'bg-blue-50', borderColor: 'border-blue-100' },
+    defaultSelected: true
+  },
+  {
+    id: 'twitter',
+    label: 'X (Twitter)',
+    icon: Twitter,
+    tab: 'social',
+    fields: [
+      { key: 'twitterPost', label: 'X post', description: "Concise tweet under 280 chars.", multiline: true, limit: { maxLength: 280, count: 'x-weighted' } }
+    ],
+    bodyField: 'twitterPost',
+    hashtags: "1-2 hashtags for X.",
+    rules: [],
+    card: { color: 'text-slate-900', bgColor: 'bg-slate-100', borderColor: 'border-slate-200' },
+    defaultSelected: true
+  },
+  {
+    id: 'tiktok',
+    label: 'TikTok',
+    icon: Music2,
+    tab: 'social',
+    fields: [
+      { key: 'tiktokHook', label: 'TikTok hook', description: "Scroll-stopping opening line for the first 3 seconds of the video." },
+      { key: 'tiktokCaption', label: 'TikTok caption', description: "Short TikTok caption that complements the video.", multiline: true, limit: { maxLength: 4000, count: 'graphemes' } }
+    ],
+    bodyField: 'tiktokCaption',
+    hashtags: "3-5 TikTok hashtags, trending and niche.",
+    rules: ["TikTok: the hook must work both spoken aloud and as on-screen text, in under 12 words."],
+    card: { color: 'text-slate-900', bgColor: 'bg-cyan-50', borderColor: 'border-cyan-100' }
+  },
+  {
+    id: 'threads',
+    label: 'Threads',
+    icon: AtSign,
+    tab: 'social',
+    fields: [
+      { key: 'threadsPost', label: 'Threads post', description: "Conversational Threads post that invites replies.", multiline: true, limit: { maxLength: 500, count: 'graphemes' } }
+    ],
+    rules: ["Threads: allows a single topic tag, so do not put hashtags in the post."],
+    card: { color: 'text-slate-900', bgColor: 'bg-slate-100', borderColor: 'border-slate-200' }
+  },
+  {
+    id: 'whatsapp',
+    label: 'WhatsApp',
+    icon: MessageCircle,
+    tab: 'social',
+    fields: [
+      { key: 'whatsappMessage', label: 'WhatsApp broadcast', description: "WhatsApp broadcast message for a contact list or channel.", multiline: true }
+    ],
+    rules: ["WhatsApp: use WhatsApp formatting (*bold*, _italic_), short lines, a few emojis and one clear call to action. No hashtags."],
+    card: { color: 'text-green-600', bgColor: 'bg-green-50', borderColor: 'border-green-100' }
+  },
+  {
+    id: 'youtube',
+    label: 'YouTube',
+    icon: Youtube,
+    tab: 'youtube',
+    fields: [
+      { key: 'youtubeTitle', label: 'YouTube title', description: "SEO optimized click-worthy title.", limit: { maxLength: 100, count: 'graphemes' } },
+      { key: 'youtubeDescription', label: 'YouTube description', description: "A very long, detailed, and comprehensive video description (300+ words).", multiline: true, limit: { maxLength: 5000, count: 'graphemes' } }
+    ],
+    schema: {
+      youtubeTags: tagListSchema("10-15 YouTube tags, Bengali and English search phrases (under 500 characters in total)."),
+      thumbnailText: { type: Type.STRING, description: "Short, bold thumbnail text of 2-5 words." }
+    },
+    rules: ["YouTube Description: must be VERY LONG, detailed, and comprehensive (at least 300 words), covering the topic in depth with chapters/timestamps placeholders if applicable."],
+    card: { color: 'text-red-600', bgColor: 'bg-red-50', borderColor: 'border-red-100', wide: true },
+    defaultSelected: true
+  },
+  {
+    id: 'script',
+    label: 'Video Script',
+    icon: FileVideo,
+    tab: 'script',
+    fields: [],
+    schema: {
+      videoScript: { type: Type.ARRAY, items: SCENE_SCHEMA }
+    },
+    rules: [
+      "Video script: provide detailed visual cues and engaging voiceovers.",
+      "Video script: if a specific duration is requested, ensure the scene count and word count of the voiceover matches that approximate timing."
+    ],
+    card: { color: 'text-slate-700', bgColor: 'bg-slate-100', borderColor: 'border-slate-200', wide: true },
+    defaultSelected: true
+  },
+  {
+    id: 'blog',
+    label: 'Blog Article',
+    icon: FileText,
+    tab: 'longform',
+    fields: [
+      { key: 'blogTitle', label: 'Blog title', description: "SEO title for the article, with the primary keyword near the start.", limit: { maxLength: 60, count: 'graphemes' } },
+      { key: 'blogMetaDescription', label: 'Meta description', description: "Meta description shown in search results.", multiline: true, limit: { maxLength: 160, count: 'graphemes' } },
+      { key: 'blogArticle', label: 'Blog article', description: "Full SEO blog article in Markdown with ## and ### headings.", multiline: true }
+    ],
+    rules: ["Blog article: at least 800 words in Markdown, with an introduction, ## section headings, ### subheadings where useful and a conclusion. Use the primary keywords naturally in the title, the first paragraph and the headings."],
+    card: { color: 'text-orange-600', bgColor: 'bg-orange-50', borderColor: 'border-orange-100', wide: true }
+  },
+  {
+    id: 'newsletter',
+    label: 'Newsletter',
+    icon: Mail,
+    tab: 'longform',
+    fields: [
+      { key: 'newsletterSubject', label: 'Email subject', description: "Email subject line that makes people open the newsletter.", limit: { maxLength: 60, count: 'graphemes' } },
+      { key: 'newsletterPreheader', label: 'Preheader', description: "Preview text shown after the subject in the inbox.", limit: { maxLength: 100, count: 'graphemes' } },
+      { key: 'newsletterBody', label: 'Newsletter body', description: "Email newsletter body with a greeting, short sections and a sign-off.", multiline: true }
+    ],
+    rules: ["Newsletter: write it as a personal email with a greeting, 2-4 short sections, one call to action and a sign-off."],
+    card: { color: 'text-violet-600', bgColor: 'bg-violet-50', borderColor: 'border-violet-100', wide: true }
+  }
+];
+
+export const PLATFORM_TABS: { id: PlatformTab; label: string; icon: LucideIcon }[] = [
+  { id: 'social', label: 'Social', icon: Facebook },
+  { id: 'youtube', label: 'YouTube', icon: Youtube },
+  { id: 'script', label: 'Script', icon: FileVideo },
+  { id: 'longform', label: 'Blog & Email', icon: FileText }
+];
+
+export const PLATFORM_IDS: PlatformId[] = PLATFORMS.map(p => p.id);
+
+// What projects were generated with before platforms could be chosen
+export const DEFAULT_PLATFORMS: PlatformId[] = PLATFORMS.filter(p => p.defaultSelected).map(p => p.id);
+
+export const PLATFORM_FIELDS: PlatformField[] = PLATFORMS.flatMap(p => p.fields);
+
+export const getPlatform = (id: PlatformId): PlatformDefinition => PLATFORMS.find(p => p.id === id)!;
+
+export const fieldLabel = (key: TextFieldKey): string => PLATFORM_FIELDS.find(f => f.key === key)?.label ?? key;
+
+// Keeps registry order, whatever order the ids were picked in
+export const sortPlatforms = (ids: PlatformId[]): PlatformId[] => PLATFORM_IDS.filter(id => ids.includes(id));
+
+// Fields a generation for these platforms must return
+export const requiredFields = (platforms: PlatformId[]): ContentField[] => [
+  ...platforms.flatMap(id => getPlatform(id).fields.map(f => f.key)),
+  ...(platforms.includes('script') ? ['videoScript' as const] : []),
+  'summary'
+];
+
+// Platforms a (possibly partial) content package has output for
+export const platformsInContent = (content: Partial<GeneratedContent>): PlatformId[] =>
+  PLATFORMS.filter(p => p.id === 'script'
+    ? (content.videoScript?.length ?? 0) > 0
+    : p.fields.some(f => content[f.key] !== undefined)
+  ).map(p => p.id);
+
+const PLATFORMS_STORAGE_KEY = 'srotolipi_platforms';
+
+export const loadSelectedPlatforms = (): PlatformId[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PLATFORMS_STORAGE_KEY) ?? 'null');
+    const ids = Array.isArray(saved) ? sortPlatforms(saved) : [];
+    return ids.length > 0 ? ids : DEFAULT_PLATFORMS;
+  } catch {
+    return DEFAULT_PLATFORMS;
+  }
+};
+
+export const saveSelectedPlatforms = (platforms: PlatformId[]) => {
+  localStorage.setItem(PLATFORMS_STORAGE_KEY, JSON.stringify(platforms));
+};
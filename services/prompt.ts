@@ -0,0 +1,235 @@
+import { Type } from "@google/genai";
+import { ContentField, ContentRequest, GeneratedContent, MediaInput, OutputLanguage, PlatformId, PlatformLanguages, RegenerateTarget, VideoScriptScene } from "../types";
+import { PLATFORM_IDS, SCENE_SCHEMA, getPlatform, sortPlatforms, tagListSchema } from "./platforms";
+import { buildBrandPrompt } from "./brands";
+import { getLanguage, languageFor, summaryLanguage } from "./languages";
+import { GenerationError } from "./errors";
+
+// Prompt and schema shared by every generation provider
+
+export const SYSTEM_INSTRUCTION = `
+You are SrotoLipi AI, an advanced Bengali content creation engine. 
+Your task is to analyze the user's input (Text, Image, Video, or Audio) and generate high-quality content tailored for various platforms, in BENGALI unless the prompt asks for another language.
+
+Adhere strictly to these rules:
+1. Write each platform in the output language the prompt gives for it; anything without one is in Bengali. SEO tags/hashtags can mix Bengali and English if popular.
+2. The tone must match the user's selection.
+3. The output must be returned in strictly valid JSON format matching the schema provided.
+4. Generate ONLY the platforms requested in the prompt, and follow the platform rules given there.
+5. **Hashtags, tags and keywords**: Return them in their own arrays, without the # sign. The post bodies may still end with a few hashtags.
+`;
+
+const describe = (description: string, language?: OutputLanguage) =>
+  language ? `${description} ${getLanguage(language).schemaNote}` : description;
+
+// Response schema for the chosen platforms: their text fields and schema fragments, their
+// hashtag lists, plus the summary and keywords every generation gets. With `languages`,
+// each text field's description names the language it must be written in.
+export const buildResponseSchema = (platforms: PlatformId[], languages?: PlatformLanguages) => {
+  const chosen = sortPlatforms(platforms).map(getPlatform);
+  const properties: Record<string, any> = {};
+
+  for (const platform of chosen) {
+    const language = languages ? languageFor(languages, platform.id) : undefined;
+    for (const field of platform.fields) properties[field.key] = { type: Type.STRING, description: describe(field.description, language) };
+    Object.assign(properties, platform.schema);
+  }
+
+  properties.summary = {
+    type: Type.STRING,
+    description: describe("A brief summary of the content for audio reading.", languages ? summaryLanguage(platforms, languages) : undefined)
+  };
+  properties.keywords = tagListSchema("3-6 primary SEO keywords for the topic.");
+
+  const withHashtags = chosen.filter(p => p.hashtags);
+  if (withHashtags.length > 0) {
+    properties.hashtags = {
+      type: Type.OBJECT,
+      description: "Hashtags per platform, without the # sign.",
+      properties: Object.fromEntries(withHashtags.map(p => [p.id, tagListSchema(p.hashtags!)])),
+      required: withHashtags.map(p => p.id)
+    };
+  }
+
+  return { type: Type.OBJECT, properties, required: Object.keys(properties) };
+};
+
+// Schema of any single field, for prompts that ask for specific fields only. The regenerate
+// prompt leaves the language to the text being rewritten.
+const FIELD_SCHEMAS: Record<string, any> = buildResponseSchema(PLATFORM_IDS).properties;
+
+// Converts a Gemini `Type` schema into plain JSON Schema (lowercase type names)
+// for backends that speak the OpenAI structured-output format.
+export const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const out: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') out.type = value.toLowerCase();
+    else if (key === 'properties') out.properties = Object.fromEntries(Object.entries(value as object).map(([k, v]) => [k, toJsonSchema(v)]));
+    else out[key] = toJsonSchema(value);
+  }
+  return out;
+};
+
+// Inline base64 or a reference to an uploaded file
+const mediaPart = ({ data, fileUri, mimeType }: MediaInput) =>
+  fileUri ? { fileData: { fileUri, mimeType } } : { inlineData: { data, mimeType } };
+
+// 75.4 -> "1:15"
+const formatTimestamp = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Key frames and the audio track sent in place of one video count as that one file
+const groupMediaFiles = (mediaFiles: MediaInput[]): MediaInput[][] => {
+  const groups: MediaInput[][] = [];
+  mediaFiles.forEach(media => {
+    const last = groups[groups.length - 1];
+    if (media.derived && last?.[0].derived?.video === media.derived.video) last.push(media);
+    else groups.push([media]);
+  });
+  return groups;
+};
+
+// Builds the multimodal request parts in Gemini's `{ text } | { inlineData } | { fileData }` shape.
+// Other providers translate these parts into their own message format.
+export const buildContentParts = (request: ContentRequest): any[] => {
+  const { textInput, mediaFiles, audioInput, tone, duration } = request;
+  const platforms = sortPlatforms(request.platforms).map(getPlatform);
+  const parts: any[] = [];
+
+  let promptText = `Generate content with a ${tone} tone.`;
+  if (request.brand) promptText += buildBrandPrompt(request.brand);
+  promptText += `\nPlatforms: ${platforms.map(p => p.label).join(', ')}`;
+  if (request.platforms.includes('script')) promptText += `\nTarget Video Script Duration: ${duration}`;
+
+  const languages = [...platforms.map(p => languageFor(request.languages, p.id)), summaryLanguage(request.platforms, request.languages)];
+  promptText += `\nOutput language:\n${platforms.map((p, i) => `- ${p.label}: ${getLanguage(languages[i]).label}`).join('\n')}`;
+  promptText += `\n- Summary: ${getLanguage(languages[languages.length - 1]).label}`;
+  const definitions = [...new Set(languages)].map(id => getLanguage(id).definition).filter(Boolean);
+  if (definitions.length > 0) promptText += `\n${definitions.join('\n')}`;
+
+  const rules = platforms.flatMap(p => p.rules);
+  if (rules.length > 0) promptText += `\nPlatform rules:\n${rules.map(rule => `- ${rule}`).join('\n')}`;
+  
+  if (textInput) promptText += `\nTopic/Context: ${textInput}`;
+  
+  parts.push({ text: promptText });
+
+  // Handle Uploaded Files (Image, Video, or Audio), in the order the user arranged them
+  const files = groupMediaFiles(mediaFiles);
+  if (files.length > 1) {
+    parts.push({ text: `Context: ${files.length} files are attached. Use them together as the source material, in the order given.` });
+  }
+
+  files.forEach((group, index) => {
+    const [mediaFile] = group;
+    group.forEach(media => parts.push(mediaPart(media)));
+
+    const label = files.length > 1 ? `Context (file ${index + 1}${mediaFile.name ? `, ${mediaFile.name}` : ''}):` : 'Context:';
+    if (mediaFile.derived) {
+      const frames = group.filter(media => media.derived?.kind === 'keyframe');
+      const hasAudio = group.some(media => media.derived?.kind === 'audioTrack');
+      parts.push({ text: `${label} The attached video was reduced to ${frames.length} key frames, taken at ${frames.map(frame => formatTimestamp(frame.derived?.at ?? 0)).join(', ')}${hasAudio ? ', followed by its audio track' : ''}. Treat them together as the video and analyze it visually${hasAudio ? ' and audibly' : ''}.` });
+    } else if (mediaFile.mimeType.startsWith('audio/')) {
+      parts.push({ text: `${label} The attached media is an audio file. Listen to the speech/sound carefully and use it as the primary source material.` });
+    } else if (mediaFile.mimeType.startsWith('image/')) {
+      parts.push({ text: `${label} Analyze this image visually.` });
+    } else if (mediaFile.mimeType.startsWith('video/')) {
+      parts.push({ text: `${label} Analyze this video visually and audibly.` });
+    }
+    if (mediaFile.caption?.trim()) parts.push({ text: `User's caption for this file: ${mediaFile.caption.trim()}` });
+  });
+
+  // Handle Recorded Audio
+  if (audioInput) {
+    parts.push(mediaPart(audioInput));
+    parts.push({ text: mediaFiles.length > 0
+      ? "Audio Context: Please listen to this recorded voice note. It explains the attached files; use it together with them as the source material."
+      : "Audio Context: Please listen to this recorded audio and use it as the source material." });
+    if (audioInput.caption?.trim()) parts.push({ text: `User's caption for this recording: ${audioInput.caption.trim()}` });
+  }
+
+  return parts;
+};
+
+// Prompt and response schema for rewriting a single field (or scene) of an existing package.
+// The current content is sent as context so the new text stays consistent with the rest.
+export const buildRegeneratePrompt = (
+  content: GeneratedContent,
+  target: RegenerateTarget,
+  tone: string,
+  instruction: string
+): { promptText: string; responseSchema: any } => {
+  let promptText = `You are revising one part of an existing content package with a ${tone} tone.`;
+  promptText += `\nCurrent package (JSON):\n${JSON.stringify(content)}`;
+
+  let responseSchema: any;
+  if (target.kind === 'fields') {
+    promptText += `\nRewrite ONLY these fields: ${target.fields.join(', ')}. Keep them consistent with the rest of the package, in the same language and script as their current text.`;
+    responseSchema = {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(target.fields.map(f => [f, FIELD_SCHEMAS[f]])),
+      required: target.fields
+    };
+  } else {
+    const scene = content.videoScript[target.sceneIndex];
+    promptText += `\nRewrite ONLY scene ${scene.sceneNumber} of videoScript. Keep the same scene number, language and a similar duration so it still fits between its neighbours.`;
+    responseSchema = SCENE_SCHEMA;
+  }
+
+  if (instruction.trim()) promptText += `\nAdditional instruction: ${instruction.trim()}`;
+
+  return { promptText, responseSchema };
+};
+
+// Prompt and response schema for a targeted retry of fields that were missing or invalid
+// in an otherwise usable response
+export const buildMissingFieldsPrompt = (
+  partial: Partial<GeneratedContent>,
+  fields: ContentField[],
+  request: ContentRequest
+): { promptText: string; responseSchema: any } => {
+  let promptText = `A content package with a ${request.tone} tone was generated, but some fields are missing or invalid.`;
+  promptText += `\nFields received so far (JSON):\n${JSON.stringify(partial)}`;
+  promptText += `\nGenerate ONLY these fields, consistent with the ones above: ${fields.join(', ')}.`;
+
+  const schemas: Record<string, any> = buildResponseSchema(request.platforms, request.languages ?? {}).properties;
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(f => [f, schemas[f]])),
+    required: fields
+  };
+
+  return { promptText, responseSchema };
+};
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null ||
+  (typeof value === 'string' && !value.trim()) ||
+  (Array.isArray(value) && value.length === 0);
+
+// Merges the model's answer to a regenerate prompt back into the package
+export const applyRegeneratePatch = (
+  content: GeneratedContent,
+  target: RegenerateTarget,
+  patch: any
+): GeneratedContent => {
+  if (target.kind === 'fields') {
+    // A field the model left out would silently keep its old value and look like a success
+    const missing = target.fields.filter(f => isEmptyValue(patch?.[f]));
+    if (missing.length > 0) {
+      throw new GenerationError('MalformedResponse', `The model did not return: ${missing.join(', ')}.`);
+    }
+    // Only take the requested fields, even if the model returned extra ones
+    const updates = Object.fromEntries(target.fields.map(f => [f, patch[f]]));
+    return { ...content, ...updates };
+  }
+
+  const videoScript = content.videoScript.map((scene, idx) =>
+    idx === target.sceneIndex
+      ? { ...(patch as VideoScriptScene), sceneNumber: scene.sceneNumber }
+      : scene
+  );
+  return { ...content, videoScript };
+};
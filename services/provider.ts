@@ -0,0 +1,144 @@
+import { ContentField, ContentRequest, GeneratedContent, GenerationResult, MediaInput, MediaPart, ProviderSettings, RegenerateTarget, SpeechRequest, Tone } from "../types";
+import * as gemini from "./geminiService";
+import * as openai from "./openaiCompatibleService";
+import * as mock from "./mockService";
+import { applyRegeneratePatch } from "./prompt";
+import { GenerationError } from "./errors";
+import { CallOptions, withRetry } from "./retry";
+import { finalizeGeneratedContent, repairJsonText, validateGeneratedContent, validateScene } from "./contentValidator";
+import { platformsInContent } from "./platforms";
+import { GEMINI_MEDIA_LIMITS, MediaLimits, MediaSource, OPENAI_MEDIA_LIMITS, PrepareMediaOptions, UploadMedia, prepareMedia } from "./mediaTransport";
+
+// The generation backend the UI talks to. Each implementation lives in its own service module.
+// `options` carries the abort signal and retry progress callback; timeout and retry count
+// default to the provider settings.
+export interface GenerationProvider {
+  id: ProviderSettings['provider'];
+  label: string;
+  generateContent: (request: ContentRequest, options?: CallOptions) => Promise<GenerationResult>;
+  generateContentStream: (request: ContentRequest, onPartial: (partial: Partial<GeneratedContent>) => void, options?: CallOptions) => Promise<GenerationResult>;
+  regenerateField: (content: GeneratedContent, target: RegenerateTarget, tone: Tone, instruction: string, options?: CallOptions) => Promise<GeneratedContent>;
+  generateSpeech: (request: SpeechRequest, options?: CallOptions) => Promise<MediaPart>;
+  // Checks attached media against the provider's limits, then inlines or uploads each file
+  prepareMedia: (sources: MediaSource[], options?: PrepareMediaOptions) => Promise<MediaInput[]>;
+}
+
+// What each service module provides: raw JSON text from the model, plus speech and media handling
+interface GenerationBackend {
+  generateContent: (request: ContentRequest, signal?: AbortSignal) => Promise<string>;
+  generateContentStream: (request: ContentRequest, onPartial: (partial: Partial<GeneratedContent>) => void, signal?: AbortSignal) => Promise<string>;
+  regenerateField: (content: GeneratedContent, target: RegenerateTarget, tone: Tone, instruction: string, signal?: AbortSignal) => Promise<string>;
+  completeFields: (partial: Partial<GeneratedContent>, fields: ContentField[], request: ContentRequest, signal?: AbortSignal) => Promise<string>;
+  generateSpeech: (request: SpeechRequest, signal?: AbortSignal) => Promise<MediaPart>;
+  mediaLimits: MediaLimits;
+  uploadMedia?: UploadMedia;
+}
+
+const PROVIDER_STORAGE_KEY = 'srotolipi_provider';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: (process.env.PROVIDER as ProviderSettings['provider']) || 'gemini',
+  openaiBaseUrl: 'http://localhost:8080/v1',
+  openaiApiKey: '',
+  openaiModel: 'gpt-4o-mini',
+  openaiTtsModel: 'tts-1',
+  openaiVoice: 'alloy',
+  uploadBaseUrl: '',
+  timeoutMs: 120000,
+  maxRetries: 3
+};
+
+export const PROVIDER_LABELS: Record<ProviderSettings['provider'], string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline Mock'
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// `userApiKey` is the Gemini key from Settings; the OpenAI-compatible backend has its own key
+const createBackend = (settings: ProviderSettings, userApiKey?: string): GenerationBackend => {
+  switch (settings.provider) {
+    case 'openai':
+      return {
+        generateContent: (request, signal) => openai.generateContent(request, settings, signal),
+        generateContentStream: (request, onPartial, signal) => openai.generateContentStream(request, onPartial, settings, signal),
+        regenerateField: (content, target, tone, instruction, signal) => openai.regenerateField(content, target, tone, instruction, settings, signal),
+        completeFields: (partial, fields, request, signal) => openai.completeFields(partial, fields, request, settings, signal),
+        generateSpeech: (request, signal) => openai.generateSpeech(request, settings, signal),
+        mediaLimits: OPENAI_MEDIA_LIMITS
+      };
+    case 'mock':
+      // With an upload endpoint set (e.g. the dev server's stand-in) uploads really happen
+      return {
+        ...mock,
+        mediaLimits: GEMINI_MEDIA_LIMITS,
+        uploadMedia: settings.uploadBaseUrl
+          ? (blob, options) => gemini.uploadMedia(blob, options, 'local', settings.uploadBaseUrl)
+          : mock.uploadMedia
+      };
+    case 'gemini':
+    default:
+      return {
+        generateContent: (request, signal) => gemini.generateContent(request, userApiKey, signal),
+        generateContentStream: (request, onPartial, signal) => gemini.generateContentStream(request, onPartial, userApiKey, signal),
+        regenerateField: (content, target, tone, instruction, signal) => gemini.regenerateField(content, target, tone, instruction, userApiKey, signal),
+        completeFields: (partial, fields, request, signal) => gemini.completeFields(partial, fields, request, userApiKey, signal),
+        generateSpeech: (request, signal) => gemini.generateSpeech(request, userApiKey, signal),
+        mediaLimits: GEMINI_MEDIA_LIMITS,
+        uploadMedia: (blob, options) => gemini.uploadMedia(blob, options, userApiKey, settings.uploadBaseUrl || undefined)
+      };
+  }
+};
+
+export const createProvider = (settings: ProviderSettings, userApiKey?: string): GenerationProvider => {
+  const backend = createBackend(settings, userApiKey);
+
+  // Every backend call gets the configured timeout and retry budget unless the caller overrides them
+  const run = <T,>(call: (signal: AbortSignal) => Promise<T>, options: CallOptions = {}) =>
+    withRetry(call, { timeoutMs: settings.timeoutMs, maxRetries: settings.maxRetries, ...options });
+
+  // Every full generation goes through the same validation, JSON repair and targeted retry
+  const finalize = (jsonText: string, request: ContentRequest, options?: CallOptions) =>
+    finalizeGeneratedContent(jsonText, (partial, fields) =>
+      run(signal => backend.completeFields(partial, fields, request, signal), options), request.platforms);
+
+  // Uploads are only reused against the same endpoint and key they were made with
+  const uploadScope = [settings.provider, settings.uploadBaseUrl, userApiKey?.slice(-6)].join('|');
+
+  return {
+    id: settings.provider,
+    label: PROVIDER_LABELS[settings.provider],
+    generateContent: async (request, options) =>
+      finalize(await run(signal => backend.generateContent(request, signal), options), request, options),
+    generateContentStream: async (request, onPartial, options) =>
+      finalize(await run(signal => backend.generateContentStream(request, onPartial, signal), options), request, options),
+    regenerateField: async (content, target, tone, instruction, options) => {
+      const patch = repairJsonText(await run(signal => backend.regenerateField(content, target, tone, instruction, signal), options));
+
+      if (target.kind === 'scene' && !validateScene(patch, target.sceneIndex).scene) {
+        throw new GenerationError('MalformedResponse', "The model returned an invalid scene.");
+      }
+
+      const report = validateGeneratedContent(applyRegeneratePatch(content, target, patch ?? {}), platformsInContent(content));
+      if (report.invalidFields.length > 0) {
+        throw new GenerationError('MalformedResponse', `The model returned invalid fields: ${report.invalidFields.join(', ')}.`);
+      }
+      return report.content as GeneratedContent;
+    },
+    generateSpeech: (request, options) => run(signal => backend.generateSpeech(request, signal), options),
+    // Not under the request timeout: a large upload can legitimately take minutes
+    prepareMedia: (sources, options) => prepareMedia(sources, backend.mediaLimits, backend.uploadMedia, uploadScope, options)
+  };
+};
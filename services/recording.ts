@@ -0,0 +1,46 @@
+import { encodeWav, floatToPcm16 } from "./audioEncoding";
+
+// Voice note helpers: the format the browser can record in, clip timing, waveform peaks and trimming
+
+export const MAX_RECORDING_MS = 5 * 60 * 1000;
+// Clips are decoded (and so trimmed) at speech quality: a full-length trim stays a ~10 MB WAV,
+// inside every provider's inline limit, where 48 kHz would be three times that
+const DECODE_SAMPLE_RATE = 16000;
+
+// In order of preference; Safari only records audio/mp4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm', 'audio/ogg'];
+
+// Empty when the browser supports none of them and should pick its own default
+export const pickRecordingMimeType = (): string =>
+  typeof MediaRecorder === 'undefined' ? '' : RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+// 65000 -> "1:05"
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const decodeRecording = async (blob: Blob): Promise<AudioBuffer> =>
+  new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE).decodeAudioData(await blob.arrayBuffer());
+
+// Loudest sample in each of `count` equal slices, scaled so the loudest slice is 1
+export const computePeaks = (buffer: AudioBuffer, count: number): number[] => {
+  const data = buffer.getChannelData(0);
+  const size = Math.max(1, Math.floor(data.length / count));
+  const peaks = Array.from({ length: count }, (_, i) => {
+    let peak = 0;
+    for (let j = i * size; j < Math.min((i + 1) * size, data.length); j++) peak = Math.max(peak, Math.abs(data[j]));
+    return peak;
+  });
+  const loudest = Math.max(...peaks, 0.01);
+  return peaks.map(peak => peak / loudest);
+};
+
+// The stretch between `start` and `end` seconds as a mono WAV file
+export const trimRecording = (buffer: AudioBuffer, start: number, end: number): Blob => {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).subarray(from, to));
+  const pcm = floatToPcm16(channels, to - from);
+  return new Blob([encodeWav(pcm, { sampleRate: buffer.sampleRate, channels: 1, bitsPerSample: 16 }) as BlobPart], { type: 'audio/wav' });
+};
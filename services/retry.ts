@@ -0,0 +1,81 @@
+import { GenerationError, classifyError } from "./errors";
+
+// Cancellation, per-attempt timeout and retry with exponential backoff for backend calls
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  // Called before each retry; `attempt` is 1-based
+  onRetry?: (attempt: number, maxRetries: number, error: GenerationError) => void;
+}
+
+const RETRYABLE_KINDS = ['QuotaExceeded', 'Network'];
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export const isCancelled = (error: unknown) => error instanceof GenerationError && error.kind === 'Cancelled';
+
+const cancelledError = () => new GenerationError('Cancelled', 'The request was cancelled.');
+
+// Equal jitter: a random wait between half and all of the exponential step, so retries spread
+// out but never come sooner than half the step (ErrorPanel counts down the same delay)
+export const backoffDelayMs = (attempt: number, error?: GenerationError) => {
+  if (error?.retryAfterMs) return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  const step = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return step / 2 + Math.random() * (step / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `call` with a fresh signal per attempt that fires on the caller's abort or on timeout.
+// Retryable failures (quota, network, timeout) are retried up to `maxRetries` times.
+export const withRetry = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  options: CallOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = 0, maxRetries = 0, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+      : undefined;
+
+    try {
+      return await call(controller.signal);
+    } catch (error) {
+      let failure: GenerationError;
+      if (signal?.aborted) failure = cancelledError();
+      else if (timedOut) failure = new GenerationError('Network', `The request timed out after ${Math.round(timeoutMs / 1000)}s.`, { cause: error });
+      else failure = classifyError(error);
+
+      if (failure.kind === 'Cancelled' || attempt >= maxRetries || !RETRYABLE_KINDS.includes(failure.kind)) {
+        throw failure;
+      }
+
+      onRetry?.(attempt + 1, maxRetries, failure);
+      await sleep(backoffDelayMs(attempt + 1, failure), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+};
@@ -0,0 +1,79 @@
+import { ContentField, GeneratedContent, HistoryItem, Revision } from "../types";
+import { fieldLabel } from "./platforms";
+
+// Revision bookkeeping for history projects. A project keeps every attempt; `data` mirrors
+// the current one so the rest of the app can keep reading `item.data`.
+
+export const createRevision = (content: GeneratedContent, details: Omit<Revision, 'id' | 'timestamp' | 'content'>): Revision => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: Date.now(),
+  content,
+  ...details
+});
+
+// Items saved before revisions existed are treated as a single original revision
+export const getRevisions = (item: HistoryItem): Revision[] =>
+  item.revisions?.length
+    ? item.revisions
+    : [{ id: item.id, timestamp: item.timestamp, content: item.data, tone: item.tone, duration: item.duration, kind: 'generate' }];
+
+export const currentRevisionId = (item: HistoryItem): string =>
+  item.currentRevisionId ?? getRevisions(item).slice(-1)[0].id;
+
+export const addRevision = (item: HistoryItem, revision: Revision): HistoryItem => ({
+  ...item,
+  revisions: [...getRevisions(item), revision],
+  currentRevisionId: revision.id,
+  data: revision.content,
+  tone: revision.tone
+});
+
+export const promoteRevision = (item: HistoryItem, revisionId: string): HistoryItem => {
+  const revision = getRevisions(item).find(r => r.id === revisionId);
+  if (!revision) return item;
+  return { ...item, revisions: getRevisions(item), currentRevisionId: revision.id, data: revision.content, tone: revision.tone };
+};
+
+export const getCurrentRevision = (item: HistoryItem): Revision => {
+  const id = currentRevisionId(item);
+  const revisions = getRevisions(item);
+  return revisions.find(r => r.id === id) ?? revisions[revisions.length - 1];
+};
+
+// The first manual edit forks the current revision into an 'edit' revision; further edits
+// update that revision in place, so the model output it came from stays untouched.
+export const applyManualEdit = (item: HistoryItem, content: GeneratedContent, field: ContentField): HistoryItem => {
+  const current = getCurrentRevision(item);
+
+  if (current.kind === 'edit') {
+    const editedFields = current.editedFields?.includes(field) ? current.editedFields : [...(current.editedFields ?? []), field];
+    const updated: Revision = { ...current, content, editedFields, timestamp: Date.now() };
+    return {
+      ...item,
+      revisions: getRevisions(item).map(r => r.id === current.id ? updated : r),
+      data: content
+    };
+  }
+
+  return addRevision(item, createRevision(content, {
+    tone: current.tone,
+    duration: current.duration,
+    provider: current.provider,
+    kind: 'edit',
+    editedFields: [field]
+  }));
+};
+
+export const editedFields = (item: HistoryItem | undefined): ContentField[] =>
+  item ? getCurrentRevision(item).editedFields ?? [] : [];
+
+export const describeRevision = (revision: Revision): string => {
+  if (revision.kind === 'generate') return 'Original generation';
+  if (revision.kind === 'edit') return 'Manual edit';
+  if (revision.kind === 'regenerate') return 'Full regeneration';
+  const target = revision.target;
+  if (!target) return 'Field regeneration';
+  return target.kind === 'scene'
+    ? `Scene ${target.sceneIndex + 1} rewritten`
+    : `${target.fields.map(fieldLabel).join(' + ')} rewritten`;
+};
@@ -0,0 +1,102 @@
+import { VideoScriptScene } from "../types";
+import { sceneDurationSeconds } from "./duration";
+
+// SRT / WebVTT export of a video script. Scenes play back to back, so each scene starts
+// where the previous one ended; long voiceovers are split into cues at sentence ends.
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+const MAX_CUE_CHARS = 84;
+const MAX_LINE_CHARS = 42;
+
+// Breaks after the Bengali dari (।) and ?/! while keeping the punctuation with its sentence
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[।?!])\s*|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+// Word-wraps `text` into pieces of at most `max` characters (a single longer word stays whole)
+const wrapWords = (text: string, max: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    if (current && current.length + 1 + word.length > max) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Short sentences are joined up to the cue limit; long ones are wrapped across several cues
+export const splitIntoCueTexts = (text: string, maxChars = MAX_CUE_CHARS): string[] => {
+  const cues: string[] = [];
+  let current = '';
+  for (const sentence of splitSentences(text)) {
+    if (sentence.length > maxChars) {
+      if (current) cues.push(current);
+      current = '';
+      cues.push(...wrapWords(sentence, maxChars));
+    } else if (current && current.length + 1 + sentence.length > maxChars) {
+      cues.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) cues.push(current);
+  return cues;
+};
+
+// Each scene's time is shared between its cues in proportion to their length
+export const buildCues = (scenes: VideoScriptScene[]): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let sceneStartMs = 0;
+
+  for (const scene of scenes) {
+    const sceneMs = Math.round(sceneDurationSeconds(scene) * 1000);
+    const texts = splitIntoCueTexts(scene.voiceoverText);
+    const totalChars = texts.reduce((sum, text) => sum + text.length, 0);
+
+    let offset = 0;
+    texts.forEach((text, index) => {
+      const startMs = sceneStartMs + Math.round((offset / totalChars) * sceneMs);
+      offset += text.length;
+      const endMs = index === texts.length - 1
+        ? sceneStartMs + sceneMs
+        : sceneStartMs + Math.round((offset / totalChars) * sceneMs);
+      cues.push({ startMs, endMs, text: wrapWords(text, MAX_LINE_CHARS).join('\n') });
+    });
+
+    sceneStartMs += sceneMs;
+  }
+  return cues;
+};
+
+export const formatTimecode = (ms: number, format: SubtitleFormat): string => {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const buildSubtitles = (scenes: VideoScriptScene[], format: SubtitleFormat): string => {
+  const blocks = buildCues(scenes).map((cue, index) => {
+    const timing = `${formatTimecode(cue.startMs, format)} --> ${formatTimecode(cue.endMs, format)}`;
+    return format === 'srt' ? `${index + 1}\n${timing}\n${cue.text}` : `${timing}\n${cue.text}`;
+  });
+  const body = blocks.join('\n\n') + '\n';
+  return format === 'vtt' ? `WEBVTT\n\n${body}` : body;
+};
@@ -0,0 +1,85 @@
+import { GeneratedContent } from "../types";
+import { PLATFORM_FIELDS } from "./platforms";
+
+// Word-level diff for comparing revisions. Whitespace is kept as its own token so the
+// two sides can be rendered with their original line breaks.
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffField {
+  key: string;
+  label: string;
+  text: (content: GeneratedContent) => string;
+}
+
+export const DIFF_FIELDS: DiffField[] = [
+  ...PLATFORM_FIELDS.map(field => ({ key: field.key, label: field.label, text: (c: GeneratedContent) => c[field.key] ?? '' })),
+  {
+    key: 'videoScript',
+    label: 'Video Script',
+    text: c => (c.videoScript ?? [])
+      .map(s => `Scene ${s.sceneNumber} (${s.duration})\nVisual: ${s.visualDescription}\nVoiceover: ${s.voiceoverText}`)
+      .join('\n\n')
+  },
+  { key: 'summary', label: 'Audio Summary', text: c => c.summary },
+  {
+    key: 'seo',
+    label: 'Tags & Keywords',
+    text: c => [
+      c.thumbnailText ?? '',
+      (c.keywords ?? []).join(', '),
+      (c.youtubeTags ?? []).join(', '),
+      ...Object.values(c.hashtags ?? {}).map(tags => (tags ?? []).map(tag => `#${tag}`).join(' '))
+    ].filter(Boolean).join('\n')
+  }
+];
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(Boolean);
+
+// Beyond this many token pairs the LCS table gets too large; fall back to a whole-text replace
+const MAX_DIFF_CELLS = 4_000_000;
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  if (before === after) return before ? [{ type: 'equal', text: before }] : [];
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ type: 'removed', text: before }, { type: 'added', text: after }];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+};
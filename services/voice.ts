@@ -0,0 +1,101 @@
+import { SpeakerVoice, SpeechPace, SpeechRequest, Tone, VoiceSettings } from "../types";
+
+// TTS voice selection: prebuilt Gemini voices, per-tone defaults, delivery hints and
+// multi-speaker dialogue.
+
+export const PREBUILT_VOICES: { name: string; description: string }[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Enceladus', description: 'Breathy' },
+  { name: 'Algenib', description: 'Gravelly' },
+  { name: 'Gacrux', description: 'Mature' },
+  { name: 'Sulafat', description: 'Warm' }
+];
+
+export const STYLE_PRESETS = ['Whisper', 'Cheerful', 'Spooky', 'Calm', 'Energetic', 'Serious'];
+
+const VOICE_STORAGE_KEY = 'srotolipi_voice';
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceName: 'Kore',
+  toneVoices: {
+    [Tone.WITTY]: 'Puck',
+    [Tone.CASUAL]: 'Aoede',
+    [Tone.HORROR]: 'Enceladus',
+    [Tone.THRILLER]: 'Algenib',
+    [Tone.MYSTERY]: 'Charon',
+    [Tone.CINEMATIC]: 'Gacrux'
+  },
+  pace: 'normal',
+  style: '',
+  multiSpeaker: false,
+  speakers: [
+    { speaker: 'Speaker 1', voiceName: 'Kore' },
+    { speaker: 'Speaker 2', voiceName: 'Puck' }
+  ]
+};
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const saved = localStorage.getItem(VOICE_STORAGE_KEY);
+    return saved ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VOICE_SETTINGS;
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  localStorage.setItem(VOICE_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const voiceForTone = (settings: VoiceSettings, tone: Tone): string =>
+  settings.toneVoices[tone] || settings.voiceName;
+
+// Speakers whose name starts at least one line ("Name: text"). The Gemini multi-speaker
+// config takes exactly two voices, so anything else falls back to a single voice.
+export const findTaggedSpeakers = (text: string, speakers: SpeakerVoice[]): SpeakerVoice[] => {
+  const tagged = speakers.filter(({ speaker }) => {
+    const name = speaker.trim();
+    return name && text.split('\n').some(line => line.trim().startsWith(`${name}:`));
+  });
+  return tagged.length === 2 ? tagged : [];
+};
+
+export const resolveSpeechRequest = (text: string, tone: Tone, settings: VoiceSettings): SpeechRequest => {
+  const speakers = settings.multiSpeaker ? findTaggedSpeakers(text, settings.speakers) : [];
+  return {
+    text,
+    voiceName: voiceForTone(settings, tone),
+    pace: settings.pace,
+    style: settings.style.trim(),
+    ...(speakers.length > 0 && { speakers })
+  };
+};
+
+const PACE_HINTS: Record<SpeechPace, string> = {
+  slow: 'at a slow, unhurried pace',
+  normal: '',
+  fast: 'at a fast pace'
+};
+
+// Gemini TTS is steered with a natural-language instruction ahead of the text
+export const buildSpeechPrompt = (request: SpeechRequest): string => {
+  const delivery = [request.style && `in a ${request.style.toLowerCase()} voice`, PACE_HINTS[request.pace]]
+    .filter(Boolean)
+    .join(', ');
+
+  if (request.speakers) {
+    const names = request.speakers.map(s => s.speaker).join(' and ');
+    return `Read the following conversation between ${names}${delivery ? `, ${delivery}` : ''}:\n${request.text}`;
+  }
+  return delivery ? `Say ${delivery}:\n${request.text}` : request.text;
+};
+
+// OpenAI-compatible speech endpoints take a numeric speed instead of a prompt
+export const PACE_SPEED: Record<SpeechPace, number> = { slow: 0.85, normal: 1, fast: 1.2 };
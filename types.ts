@@ -19,24 +19,235 @@ export interface VideoScriptScene {
   duration: string;
 }
 
+// Output targets from the platform registry (services/platforms.ts)
+export type PlatformId =
+  | 'facebook' | 'instagram' | 'linkedin' | 'twitter' | 'youtube' | 'script'
+  | 'tiktok' | 'threads' | 'whatsapp' | 'blog' | 'newsletter';
+
+// Banglish is Bengali written in Roman letters; bilingual pairs Bengali with English
+export type OutputLanguage = 'bengali' | 'english' | 'banglish' | 'bilingual';
+
+// Platforms without an entry are written in Bengali
+export type PlatformLanguages = Partial<Record<PlatformId, OutputLanguage>>;
+
+// Platform fields are optional: only the platforms chosen for a generation are filled
 export interface GeneratedContent {
-  facebookTitle: string; // Added Title
-  facebookPost: string;
-  instagramCaption: string;
-  linkedinPost: string;
-  twitterPost: string;
-  youtubeTitle: string;
-  youtubeDescription: string;
-  videoScript: VideoScriptScene[];
+  facebookTitle?: string; // Added Title
+  facebookPost?: string;
+  instagramCaption?: string;
+  linkedinPost?: string;
+  twitterPost?: string;
+  youtubeTitle?: string;
+  youtubeDescription?: string;
+  tiktokHook?: string;
+  tiktokCaption?: string;
+  threadsPost?: string;
+  whatsappMessage?: string;
+  blogTitle?: string;
+  blogMetaDescription?: string;
+  blogArticle?: string;
+  newsletterSubject?: string;
+  newsletterPreheader?: string;
+  newsletterBody?: string;
+  videoScript: VideoScriptScene[]; // empty when the script was not requested
   summary: string; // Used for TTS generation
+  // Structured SEO metadata; optional because projects saved before it existed lack it.
+  // Hashtags and tags are stored without the leading '#'.
+  hashtags?: Partial<Record<PlatformId, string[]>>;
+  youtubeTags?: string[];
+  keywords?: string[];
+  thumbnailText?: string;
+}
+
+export type ContentField = keyof GeneratedContent;
+
+export type SeoField = 'hashtags' | 'youtubeTags' | 'keywords' | 'thumbnailText';
+
+// Tag-list fields of GeneratedContent
+export type TagListField = 'youtubeTags' | 'keywords';
+
+// Text fields of GeneratedContent that can be regenerated on their own
+export type TextFieldKey = Exclude<ContentField, 'videoScript' | 'summary' | SeoField>;
+
+// How a field of a model response was fixed up before it reached the UI
+export interface FieldRepair {
+  field: ContentField;
+  method: 'coerced' | 'retried';
+}
+
+// A validated generation plus what had to be repaired to get there
+export interface GenerationResult {
+  content: GeneratedContent;
+  jsonRepaired: boolean; // response was truncated or fenced and had to be recovered
+  repairs: FieldRepair[];
+}
+
+// What a per-field regenerate request rewrites: one or more text fields, or a single scene
+export type RegenerateTarget =
+  | { kind: 'fields'; fields: TextFieldKey[] }
+  | { kind: 'scene'; sceneIndex: number };
+
+// Base64 payload sent to (or received from) a model
+export interface MediaPart {
+  data: string;
+  mimeType: string;
+}
+
+// An input file or recording sent with a generation, with the writer's note about it.
+// Small files carry their base64 `data`; large ones were uploaded and carry a `fileUri`.
+export interface MediaInput {
+  mimeType: string;
+  data?: string;
+  fileUri?: string;
+  name?: string;
+  caption?: string;
+  derived?: MediaDerivation;
+}
+
+// Marks a key frame or the audio track sent in place of a video; `video` ties the pieces together
+export interface MediaDerivation {
+  video: string;
+  kind: 'keyframe' | 'audioTrack';
+  at?: number; // seconds into the video, for key frames
+}
+
+// How attachments are shrunk in the browser before they are sent
+export interface PreprocessSettings {
+  enabled: boolean;
+  // Images: longest side in pixels, re-encoded as JPEG at this quality (0-1)
+  imageMaxDimension: number;
+  imageQuality: number;
+  // Videos: sent as this many key frames plus the audio track; 0 sends the video itself
+  videoKeyFrames: number;
+  videoFrameMaxDimension: number;
+  // Audio files, recordings and video soundtracks: resampled to mono WAV at this rate
+  audioSampleRate: number;
+}
+
+// A file attached in the input panel; the order of the list is the order sent to the model
+export interface MediaAttachment {
+  id: string;
+  file: File;
+  caption: string;
+}
+
+// A spelling the brand insists on, e.g. "সরকারি" instead of "সরকারী"
+export interface PreferredSpelling {
+  preferred: string;
+  avoid: string;
 }
 
+// Reusable voice of a client brand, injected into the generation prompt
+export interface BrandProfile {
+  id: string;
+  name: string;
+  description: string;
+  dos: string[];
+  donts: string[];
+  bannedWords: string[];
+  spellings: PreferredSpelling[];
+  defaultCta: string;
+  samplePosts: string[]; // few-shot examples of the brand's writing
+  defaultTone: Tone;
+  updatedAt: number;
+}
+
+// Everything a provider needs to produce a full content package
+export interface ContentRequest {
+  textInput: string;
+  mediaFiles: MediaInput[];
+  audioInput: MediaInput | null;
+  tone: Tone;
+  duration: string;
+  platforms: PlatformId[];
+  languages?: PlatformLanguages;
+  brand?: BrandProfile | null;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  // OpenAI-compatible HTTP backend (e.g. a local server)
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
+  openaiTtsModel: string;
+  openaiVoice: string;
+  // Where Gemini file uploads go; empty for Google's own endpoint
+  uploadBaseUrl: string;
+  // Applied to every backend call
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+export type SpeechPace = 'slow' | 'normal' | 'fast';
+
+export interface SpeakerVoice {
+  speaker: string; // name used to tag lines in the text, e.g. "Rahim: ..."
+  voiceName: string;
+}
+
+export interface VoiceSettings {
+  voiceName: string; // used when the tone has no voice of its own
+  toneVoices: Partial<Record<Tone, string>>;
+  pace: SpeechPace;
+  style: string; // free-text delivery hint, e.g. "whisper" or "cheerful"
+  multiSpeaker: boolean;
+  speakers: SpeakerVoice[];
+}
+
+// A resolved TTS call: the voice(s) to use and how to deliver the text
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+  pace: SpeechPace;
+  style: string;
+  speakers?: SpeakerVoice[]; // set only when the text has lines tagged for multiple speakers
+}
+
+// One attempt within a project, with the settings and instruction that produced it
+export interface Revision {
+  id: string;
+  timestamp: number;
+  content: GeneratedContent;
+  tone: Tone;
+  duration?: string;
+  provider?: ProviderId;
+  kind: 'generate' | 'regenerate' | 'field' | 'edit';
+  target?: RegenerateTarget; // what a 'field' revision rewrote
+  instruction?: string;
+  editedFields?: ContentField[]; // fields changed by hand in an 'edit' revision
+}
+
+// A project: `data` is always the content of the current revision
 export interface HistoryItem {
   id: string;
   timestamp: number;
   preview: string; // Short text or "Media Input"
   tone: Tone;
   data: GeneratedContent;
+  // Inputs and settings the item was generated from; missing on items saved before they were kept
+  inputText?: string;
+  duration?: string;
+  platforms?: PlatformId[];
+  languages?: PlatformLanguages;
+  brandId?: string;
+  brandName?: string; // kept so the sidebar can show it after the profile is deleted
+  tags?: string[];
+  pinned?: boolean;
+  revisions?: Revision[]; // oldest first; missing on items saved before revisions were kept
+  currentRevisionId?: string;
+}
+
+// Binary data stored alongside a history item
+export interface HistoryAttachments {
+  id: string; // HistoryItem id
+  file: File | null; // single input file of items saved before several could be attached
+  files?: MediaAttachment[];
+  recording: Blob | null;
+  recordingCaption?: string;
+  speech: { blob: Blob; extension: string } | null;
 }
 
 export interface ProcessingState {